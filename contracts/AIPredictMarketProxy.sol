@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    TransparentUpgradeableProxy
+} from "@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol";
+
+// Holds the prediction market's state so the logic can be upgraded without losing batches,
+// predictions or balances. The proxy deploys its own ProxyAdmin, owned by `initialOwner`,
+// which is the only account that can upgrade it; `data` should encode the initialize call.
+contract AIPredictMarketProxy is TransparentUpgradeableProxy {
+    constructor(
+        address implementation,
+        address initialOwner,
+        bytes memory data
+    ) payable TransparentUpgradeableProxy(implementation, initialOwner, data) {}
+}
@@ -1,72 +1,368 @@
+// SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
-import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import {
+    FHE,
+    euint32,
+    euint64,
+    euint128,
+    ebool,
+    externalEuint8,
+    externalEuint32,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig, ZamaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { MarketBalances } from "./MarketBalances.sol";
+import { MarketClaims } from "./MarketClaims.sol";
+import { MarketDisputes } from "./MarketDisputes.sol";
+import { MarketEvaluation } from "./MarketEvaluation.sol";
+import { MarketIntents } from "./MarketIntents.sol";
+import { MarketPredictions } from "./MarketPredictions.sol";
+import { MarketRegistry } from "./MarketRegistry.sol";
+import { MarketReputation } from "./MarketReputation.sol";
+import { MarketSettlement } from "./MarketSettlement.sol";
 
+uint256 constant BALANCE_UNIT = 1 gwei; // Confidential balances count gwei: a wei euint64 overflows at ~18.4 ETH
+// A predictor who knows their own score learns the sum of the others' from the revealed total; with
+// fewer predictions, a few of them together could isolate someone else's.
+uint256 constant MIN_CONSENSUS_PREDICTIONS = 5;
 
-contract AIPredictMarketFHE is SepoliaConfig {
+// Deployed behind an AIPredictMarketProxy. Storage is append-only across upgrades: new state
+// variables and struct fields go at the end (see the storage layout test).
+contract AIPredictMarketFHE is SepoliaConfig, Initializable {
     using FHE for euint32;
+    using FHE for euint64;
+    using FHE for euint128;
     using FHE for ebool;
 
     error NotOwner();
     error NotProvider();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchNotOpen();
     error BatchNotClosed();
     error InvalidCooldown();
     error ReplayDetected();
     error StateMismatch();
-    error InvalidProof();
-    error NotInitialized();
+    error BatchNotEvaluated();
+    error NoPrediction();
+    error AlreadyClaimed();
+    error TransferFailed();
+    error UnauthorizedCiphertext();
+    error NotDecryptionOracle();
+    error MarketNotFound();
+    error MarketExists();
+    error MarketInactive();
+    error NotMarketProvider();
+    error InvalidMarketConfig();
+    error StakeOutOfRange();
+    error SubmissionDeadlinePassed();
+    error DeadlineNotReached();
+    error InvalidBounty();
+    error InvalidDeposit();
+    error NotEvaluator();
+    error InvalidTestSet();
+    error TestSetMissing();
+    error BatchAlreadyEvaluated();
+    error NotArbitrator();
+    error ChallengeWindowClosed();
+    error ChallengeWindowActive();
+    error DisputeOpen();
+    error NoOpenDispute();
+    error InvalidBond();
+    error MissingRole(bytes32 role, address account);
+    error InvalidAccount();
+    error NotPendingOwner();
+    error WrongMarketType();
+    error NoReputation();
+    error FeeTooHigh();
+    error BatchNotFound();
+    error BatchNotCancellable();
+    error BatchNotCancelled();
+    error BatchIsCancelled();
+    error InvalidSettlementRange();
+    error SettlementStarted();
+    error EvaluationTimedOut();
+    error IntentExpired();
+    error InvalidSignature();
+    error ResolutionPeriodActive();
+    error InvalidResolutionPeriod();
+
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE"); // Grants and revokes roles, sets protocol parameters
+    bytes32 public constant BATCH_OPERATOR_ROLE = keccak256("BATCH_OPERATOR_ROLE"); // Creates markets and runs their batches
+    bytes32 public constant EVALUATOR_ROLE = keccak256("EVALUATOR_ROLE"); // Uploads encrypted test sets
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE"); // Sets the keeper bounty and dispute bond, withdraws fees
+    bytes32 public constant ARBITRATOR_ROLE = keccak256("ARBITRATOR_ROLE"); // Resolves disputed results within the resolution period
 
     address public owner;
-    mapping(address => bool) public isProvider;
+    address public pendingOwner; // Proposed by the owner; becomes owner once it accepts
+    mapping(bytes32 => mapping(address => bool)) public hasRole; // role -> account -> granted
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
+    address public decryptionOracle; // Only address allowed to deliver decryption callbacks (the oracle relayer)
+    uint256 public keeperBounty; // Escrowed by the provider on openBatch, paid to whoever closes an expired batch
+    mapping(address => euint64) internal confidentialBalances; // Encrypted gwei balances funded by deposit()
+    uint64 public challengePeriod; // Seconds after an evaluation during which its result can be disputed
+    uint256 public disputeBond; // Posted by a challenger; returned if the dispute is upheld, slashed otherwise
+    uint16 public constant MAX_FEE_BPS = 1000; // Protocol fee cap: 10% of a batch's pot
+    bytes32 public constant PREDICTION_INTENT_TYPEHASH =
+        keccak256(
+            "PredictionIntent(address predictor,uint256 batchId,bytes32 encryptedScore,bytes32 encryptedStake,uint256 nonce,uint256 deadline)"
+        );
+    uint16 public feeBps; // Protocol fee in basis points, copied onto each batch when it opens
+    address public treasury; // Receives the protocol fees
+    uint256 public accruedFees; // Fees of final results, not yet withdrawn
+
+    enum MarketType {
+        Score, // Predict the score itself; wins within the batch tolerance
+        Bucket // Predict which score bucket the actual score falls in
+    }
+
+    struct MarketConfig {
+        string category; // e.g. "NLP", "CV"
+        MarketType marketType; // Fixed when the market is created
+        uint32[] bucketBounds; // Bucket markets only: ascending cut points, e.g. [50, 70, 90] for 0-50, 50-70, 70-90, 90-100
+        uint32 tolerance; // Copied onto each batch when it opens; unused by bucket markets
+        uint256 minStake;
+        uint256 maxStake; // 0 means uncapped
+        uint64 submissionPeriod; // Seconds a batch accepts predictions after opening
+        uint64 evaluationPeriod; // Seconds after submissions close within which a batch should be evaluated
+    }
+
+    enum BatchStatus {
+        Open, // Accepting predictions
+        Closed, // Waiting for the provider to request evaluation
+        EvaluationRequested, // Waiting for the decryption oracle
+        Settled, // Evaluated; claims open once the challenge window has passed
+        Cancelled, // Cancelled by its operator or not evaluated in time; stakes are refundable
+        Disputed // Evaluated, but the result is contested and claims are frozen
+    }
+
+    struct Market {
+        string modelId; // Identifier of the AI model whose performance is predicted
+        address provider; // Provider that created the market and operates its batches
+        bool active; // Inactive markets cannot open new batches
+        uint256 currentBatchId; // Latest batch opened for this market, 0 if none
+        MarketConfig config;
+    }
+    uint256 public marketCount;
+    mapping(uint256 => Market) public markets; // marketId -> Market, ids start at 1
+    mapping(bytes32 => uint256) public marketIdByModel; // keccak256(modelId) -> marketId
 
     struct Batch {
+        uint256 marketId;
         bool isOpen;
-        uint256 totalEncryptedScore;
+        uint256 plainStakeTotal; // Sum of the stakes paid in msg.value; confidential stakes are not included
         uint256 submissionCount;
+        euint32 encryptedActualScore; // Actual score ciphertext sent for decryption on evaluation
+        uint32 tolerance; // Max absolute distance between a prediction and the actual score that still wins
+        uint64 submissionDeadline; // Predictions are rejected after this timestamp
+        uint64 evaluationDeadline; // The batch should be evaluated before this timestamp
+        uint256 keeperBounty; // Bounty escrowed for this batch, released when it closes
+        euint128 encryptedTotalStake; // Homomorphic sum of all stakes, plain and confidential
+        uint256 totalStaked; // Revealed on evaluation; the pot that winners share
+        euint32 encryptedWinnerCount; // Homomorphic count of winning predictions, set on evaluation
+        euint128 encryptedWinningStake; // Homomorphic sum of the stakes of winning predictions
+        bool evaluated; // Set once the evaluation cleartexts have been verified
+        uint32 actualScore;
+        uint32 winnerCount;
+        uint256 winningStake;
+        uint256 evaluationRequestId; // Latest evaluation request; earlier ones are stale
+        uint64 challengeDeadline; // Claims unlock after this timestamp, unless a dispute is open
+        uint16 feeBps; // Protocol fee rate in force when the batch opened
+        uint256 feeAmount; // Skimmed from totalStaked once the result is final; winners share the rest
+        bool cancelled; // Set by cancelBatch, or by the first refund of a batch whose evaluation timed out
+        bool evaluationPending; // Evaluation requested and its result not yet delivered
+        euint32 encryptedActualBucket; // Bucket markets: bucket the actual score falls in, fixed when settlement starts
+        uint256 settlementProgress; // Predictions, in submission order, already compared with the actual score
+        uint256 reputationProgress; // Predictions, in submission order, already folded into reputations
+        euint64 encryptedScoreSum; // Homomorphic sum of all predicted scores, each capped at 100; score markets only
+        bool consensusRevealed; // Set when the sum was decrypted with the result; needs MIN_CONSENSUS_PREDICTIONS
+        uint64 scoreSum;
     }
-    uint256 public currentBatchId;
+    uint256 public currentBatchId; // Last batch id allocated, across all markets
     mapping(uint256 => Batch) public batches;
 
     struct Prediction {
         address predictor;
-        euint32 encryptedScore; // Encrypted score predicted by the user
-        uint256 amount; // Amount staked on this prediction
+        euint32 encryptedScore; // Encrypted score predicted by the user, or bucket index in bucket markets
+        uint256 amount; // Amount staked on this prediction, 0 for confidential stakes
+        euint64 encryptedAmount; // Stake as a ciphertext; the only record of a confidential stake
+        bool confidential; // Stake debited from the confidential balance instead of msg.value
+        ebool isWinner; // Encrypted win flag, set when the batch is evaluated
+        bool claimed; // Set once the predictor has started a claim or received a refund
     }
     mapping(uint256 => mapping(address => Prediction)) public predictions; // batchId -> predictor -> Prediction
+    mapping(uint256 => address[]) internal batchPredictors; // batchId -> predictors in submission order
+
+    struct TestSetEvaluation {
+        address evaluator; // First evaluator to upload for the batch; only they can add samples
+        uint32 sampleCount;
+        euint32 correctCount; // Homomorphic count of model outputs equal to their ground-truth label
+    }
+    mapping(uint256 => TestSetEvaluation) public testSetEvaluations; // batchId -> encrypted test-set results
+
+    struct Dispute {
+        address challenger;
+        uint256 bond;
+        bool open; // Claims on the batch are frozen while set, until the resolution deadline
+        uint64 resolutionDeadline; // Unresolved by then, the dispute lapses and anyone can dismiss it
+    }
+    mapping(uint256 => Dispute) public disputes; // batchId -> latest dispute of its evaluation
 
     struct DecryptionContext {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        bytes32[] handles; // Exact ciphertext handles sent to the oracle, in request order
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    struct ClaimContext {
+        uint256 batchId;
+        address predictor;
+        bool processed;
+    }
+    mapping(uint256 => ClaimContext) public claimContexts; // requestId -> pending reward claim
+
+    struct WithdrawalContext {
+        address account;
+        bool processed;
+    }
+    mapping(uint256 => WithdrawalContext) public withdrawalContexts; // requestId -> pending withdrawal
+
+    struct Reputation {
+        euint32 wins; // Homomorphic count of winning predictions across all batches recorded so far
+        euint32 accuracy; // wins * 100 / settledPredictions, as an integer percentage
+        uint32 settledPredictions; // Predictions that have been through an evaluation; public like participation itself
+        bool revealed; // Set once the predictor has opted in to publishing their accuracy
+        uint32 revealedAccuracy; // Accuracy as of the latest reveal
+        uint32 revealedPredictions; // settledPredictions as of the latest reveal
+    }
+    mapping(address => Reputation) public reputations; // predictor -> encrypted track record
+
+    struct RevealContext {
+        address account;
+        uint32 settledPredictions;
+        bool processed;
+    }
+    mapping(uint256 => RevealContext) public revealContexts; // requestId -> pending reputation reveal
+
+    mapping(address => uint256[]) internal predictorBatches; // predictor -> batches predicted in, oldest first
+
+    mapping(address => uint256) public nonces; // Next PredictionIntent nonce of each predictor
+
+    uint64 public disputeResolutionPeriod; // Seconds the arbitrators have to resolve a dispute
+
+    // Read API: one page of rows per call, so clients don't have to replay events
+    struct BatchSummary {
+        uint256 batchId;
+        uint256 marketId;
+        BatchStatus status;
+        uint256 submissionCount;
+        uint64 submissionDeadline;
+        uint64 evaluationDeadline;
+        uint32 actualScore; // 0 until evaluated
+        uint32 winnerCount;
+        uint256 totalStaked; // Revealed on evaluation
+    }
+
+    struct PredictionSummary {
+        uint256 batchId;
+        address predictor;
+        uint256 amount; // 0 for confidential stakes
+        bool confidential;
+        bool claimed;
+        BatchStatus status; // Status of the batch the prediction belongs to
+    }
+
+    event OwnershipTransferStarted(address indexed owner, address indexed pendingOwner);
     event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event TestSetUploaded(uint256 indexed batchId, address indexed evaluator, uint32 samples, uint32 totalSamples);
     event PauseToggled(bool indexed paused);
     event CooldownSet(uint256 indexed oldCooldown, uint256 indexed newCooldown);
-    event BatchOpened(uint256 indexed batchId);
-    event BatchClosed(uint256 indexed batchId);
+    event DecryptionOracleSet(address indexed oldOracle, address indexed newOracle);
+    event KeeperBountySet(uint256 oldBounty, uint256 newBounty);
+    event ChallengePeriodSet(uint64 oldPeriod, uint64 newPeriod);
+    event DisputeBondSet(uint256 oldBond, uint256 newBond);
+    event DisputeResolutionPeriodSet(uint64 oldPeriod, uint64 newPeriod);
+    event FeeUpdated(uint16 oldFeeBps, uint16 newFeeBps);
+    event TreasurySet(address indexed oldTreasury, address indexed newTreasury);
+    event FeesWithdrawn(address indexed treasury, uint256 amount);
+    event MarketCreated(uint256 indexed marketId, string modelId, address indexed provider);
+    event MarketConfigUpdated(uint256 indexed marketId);
+    event MarketStatusChanged(uint256 indexed marketId, bool active);
+    event BatchOpened(
+        uint256 indexed batchId,
+        uint256 indexed marketId,
+        uint32 tolerance,
+        uint64 submissionDeadline,
+        uint64 evaluationDeadline
+    );
+    event BatchClosed(uint256 indexed batchId, uint256 indexed marketId);
+    event BatchCancelled(uint256 indexed batchId, address indexed operator);
+    event BatchEvaluationTimedOut(uint256 indexed batchId);
+    event BatchSettlementProgress(uint256 indexed batchId, uint256 settled, uint256 total);
+    event ReputationsRecorded(uint256 indexed batchId, uint256 recorded, uint256 total);
+    event KeeperRewarded(uint256 indexed batchId, address indexed keeper, uint256 amount);
     event PredictionSubmitted(uint256 indexed batchId, address indexed predictor, uint256 amount);
+    event ConfidentialPredictionSubmitted(uint256 indexed batchId, address indexed predictor);
+    event PredictionIntentExecuted(address indexed predictor, address indexed relayer, uint256 nonce);
+    event Deposited(address indexed account, uint256 amount);
+    event WithdrawalRequested(uint256 indexed requestId, address indexed account);
+    event Withdrawn(address indexed account, uint256 amount);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 actualScore, uint256 totalEncryptedScore, uint256 winnerCount);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 actualScore, uint256 totalStaked, uint256 winnerCount);
+    event CrowdConsensusRevealed(uint256 indexed batchId, uint256 scoreSum);
+    event ClaimRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed predictor);
+    event RewardClaimed(uint256 indexed batchId, address indexed predictor, uint256 amount);
+    event RefundIssued(uint256 indexed batchId, address indexed predictor, uint256 amount);
+    event ConfidentialPayoutCredited(uint256 indexed batchId, address indexed predictor);
+    event ResultDisputed(uint256 indexed batchId, address indexed challenger, uint256 bond);
+    event DisputeResolved(uint256 indexed batchId, address indexed arbitrator, bool upheld);
+    event DisputeDismissed(uint256 indexed batchId, uint256 bond);
+    event ReputationRevealRequested(uint256 indexed requestId, address indexed account);
+    event ReputationRevealed(address indexed account, uint32 accuracy, uint32 settledPredictions);
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
+    modifier onlyRole(bytes32 role) {
+        if (!hasRole[role][msg.sender]) revert MissingRole(role, msg.sender);
+        _;
+    }
+
     modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+        if (!hasRole[BATCH_OPERATOR_ROLE][msg.sender]) revert NotProvider();
+        _;
+    }
+
+    modifier onlyDecryptionOracle() {
+        if (msg.sender != decryptionOracle) revert NotDecryptionOracle();
+        _;
+    }
+
+    modifier onlyEvaluator() {
+        if (!hasRole[EVALUATOR_ROLE][msg.sender]) revert NotEvaluator();
+        _;
+    }
+
+    modifier onlyArbitrator() {
+        if (!hasRole[ARBITRATOR_ROLE][msg.sender]) revert NotArbitrator();
+        _;
+    }
+
+    modifier onlyMarketProvider(uint256 marketId) {
+        if (markets[marketId].provider == address(0)) revert MarketNotFound();
+        if (msg.sender != markets[marketId].provider && msg.sender != owner) revert NotMarketProvider();
         _;
     }
 
@@ -76,10 +372,7 @@ contract AIPredictMarketFHE is SepoliaConfig {
     }
 
     modifier submissionRateLimited() {
-        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
-            revert CooldownActive();
-        }
-        lastSubmissionTime[msg.sender] = block.timestamp;
+        _useSubmissionCooldown(msg.sender);
         _;
     }
 
@@ -92,193 +385,782 @@ contract AIPredictMarketFHE is SepoliaConfig {
     }
 
     constructor() {
-        owner = msg.sender;
-        isProvider[owner] = true;
+        _disableInitializers();
+    }
+
+    // Runs once, through the proxy. The SepoliaConfig constructor only configured the
+    // implementation's storage, so the coprocessor is set up again in the proxy's.
+    // `oracle` is the account that delivers decryption callbacks: the relayer, not the
+    // DecryptionOracle contract, so it cannot be read from the network config. `bond` is the
+    // dispute bond; it cannot be 0, or disputing would be free.
+    function initialize(address initialOwner, address oracle, uint256 bond) external initializer {
+        if (initialOwner == address(0) || oracle == address(0)) revert InvalidAccount();
+        if (bond == 0) revert InvalidBond();
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+
+        owner = initialOwner;
+        _grantRole(ADMIN_ROLE, initialOwner);
+        _grantRole(BATCH_OPERATOR_ROLE, initialOwner);
+        _grantRole(PAUSER_ROLE, initialOwner);
+        _grantRole(TREASURER_ROLE, initialOwner);
+        _grantRole(ARBITRATOR_ROLE, initialOwner);
         cooldownSeconds = 60; // Default 1 minute cooldown
+        challengePeriod = 1 days;
+        disputeBond = bond;
+        disputeResolutionPeriod = 7 days;
+        treasury = initialOwner;
+        decryptionOracle = oracle;
     }
 
+    // Two-step transfer: the new owner must call acceptOwnership, so a mistyped address cannot
+    // take over the contract. Proposing again replaces the pending owner.
     function transferOwnership(address newOwner) external onlyOwner {
-        emit OwnershipTransferred(owner, newOwner);
-        owner = newOwner;
+        if (newOwner == address(0)) revert InvalidAccount();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
     }
 
-    function addProvider(address provider) external onlyOwner {
-        isProvider[provider] = true;
-        emit ProviderAdded(provider);
+    // The admin role moves with ownership; other roles held by the old owner are left to the admins.
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address oldOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        _revokeRole(ADMIN_ROLE, oldOwner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        emit OwnershipTransferred(oldOwner, msg.sender);
     }
 
-    function removeProvider(address provider) external onlyOwner {
-        isProvider[provider] = false;
-        emit ProviderRemoved(provider);
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        if (account == address(0)) revert InvalidAccount();
+        _grantRole(role, account);
     }
 
-    function setPaused(bool _paused) external onlyOwner {
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        _revokeRole(role, account);
+    }
+
+    function isProvider(address account) external view returns (bool) {
+        return hasRole[BATCH_OPERATOR_ROLE][account];
+    }
+
+    function isEvaluator(address account) external view returns (bool) {
+        return hasRole[EVALUATOR_ROLE][account];
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (hasRole[role][account]) return;
+        hasRole[role][account] = true;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (!hasRole[role][account]) return;
+        hasRole[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    function setPaused(bool _paused) external onlyRole(PAUSER_ROLE) {
         paused = _paused;
         emit PauseToggled(_paused);
     }
 
-    function setCooldown(uint256 newCooldownSeconds) external onlyOwner {
+    function setCooldown(uint256 newCooldownSeconds) external onlyRole(ADMIN_ROLE) {
         if (newCooldownSeconds == 0) revert InvalidCooldown();
         emit CooldownSet(cooldownSeconds, newCooldownSeconds);
         cooldownSeconds = newCooldownSeconds;
     }
 
-    function openBatch() external onlyProvider whenNotPaused {
-        currentBatchId++;
-        batches[currentBatchId].isOpen = true;
-        emit BatchOpened(currentBatchId);
+    function setDecryptionOracle(address newOracle) external onlyRole(ADMIN_ROLE) {
+        if (newOracle == address(0)) revert InvalidAccount();
+        emit DecryptionOracleSet(decryptionOracle, newOracle);
+        decryptionOracle = newOracle;
+    }
+
+    function setKeeperBounty(uint256 newBounty) external onlyRole(TREASURER_ROLE) {
+        emit KeeperBountySet(keeperBounty, newBounty);
+        keeperBounty = newBounty;
+    }
+
+    // Applies to batches opened after the update
+    function setFee(uint16 newFeeBps) external onlyRole(ADMIN_ROLE) {
+        if (newFeeBps > MAX_FEE_BPS) revert FeeTooHigh();
+        emit FeeUpdated(feeBps, newFeeBps);
+        feeBps = newFeeBps;
+    }
+
+    function setTreasury(address newTreasury) external onlyRole(ADMIN_ROLE) {
+        if (newTreasury == address(0)) revert InvalidAccount();
+        emit TreasurySet(treasury, newTreasury);
+        treasury = newTreasury;
+    }
+
+    function withdrawFees() external onlyRole(TREASURER_ROLE) {
+        uint256 amount = accruedFees;
+        accruedFees = 0;
+        _sendValue(treasury, amount);
+        emit FeesWithdrawn(treasury, amount);
+    }
+
+    // Applies to evaluations completed after the update
+    function setChallengePeriod(uint64 newPeriod) external onlyRole(ADMIN_ROLE) {
+        emit ChallengePeriodSet(challengePeriod, newPeriod);
+        challengePeriod = newPeriod;
+    }
+
+    function setDisputeBond(uint256 newBond) external onlyRole(TREASURER_ROLE) {
+        if (newBond == 0) revert InvalidBond();
+        emit DisputeBondSet(disputeBond, newBond);
+        disputeBond = newBond;
+    }
+
+    // Applies to disputes opened after the update
+    function setDisputeResolutionPeriod(uint64 newPeriod) external onlyRole(ADMIN_ROLE) {
+        if (newPeriod == 0) revert InvalidResolutionPeriod();
+        emit DisputeResolutionPeriodSet(disputeResolutionPeriod, newPeriod);
+        disputeResolutionPeriod = newPeriod;
+    }
+
+    function createMarket(
+        string calldata modelId,
+        MarketConfig calldata config
+    ) external onlyProvider whenNotPaused returns (uint256 marketId) {
+        marketId = ++marketCount;
+        MarketRegistry.create(markets, marketIdByModel, marketId, modelId, config);
+    }
+
+    // Applies to batches opened after the update; an already open batch keeps its tolerance
+    function updateMarketConfig(
+        uint256 marketId,
+        MarketConfig calldata config
+    ) external onlyMarketProvider(marketId) {
+        MarketRegistry.updateConfig(markets, marketId, config);
+    }
+
+    function setMarketActive(uint256 marketId, bool active) external onlyMarketProvider(marketId) {
+        markets[marketId].active = active;
+        emit MarketStatusChanged(marketId, active);
+    }
+
+    // The caller escrows the current keeper bounty, so a batch can always be closed by someone
+    // once its submission deadline has passed, even if the provider goes offline.
+    function openBatch(
+        uint256 marketId
+    ) external payable onlyProvider onlyMarketProvider(marketId) whenNotPaused {
+        Market storage market = markets[marketId];
+        if (!market.active) revert MarketInactive();
+        if (batches[market.currentBatchId].isOpen) revert BatchNotClosed();
+        if (msg.value != keeperBounty) revert InvalidBounty();
+
+        uint256 batchId = ++currentBatchId;
+        Batch storage batch = batches[batchId];
+        batch.marketId = marketId;
+        batch.isOpen = true;
+        batch.tolerance = market.config.tolerance;
+        batch.feeBps = feeBps;
+        batch.submissionDeadline = uint64(block.timestamp) + market.config.submissionPeriod;
+        batch.evaluationDeadline = batch.submissionDeadline + market.config.evaluationPeriod;
+        batch.keeperBounty = msg.value;
+        market.currentBatchId = batchId;
+
+        emit BatchOpened(batchId, marketId, batch.tolerance, batch.submissionDeadline, batch.evaluationDeadline);
+    }
+
+    // Early close by the provider; the escrowed bounty goes back to the market provider.
+    function closeBatch(uint256 marketId) external onlyProvider onlyMarketProvider(marketId) whenNotPaused {
+        uint256 batchId = markets[marketId].currentBatchId;
+        if (!batches[batchId].isOpen) revert BatchNotOpen();
+        uint256 bounty = _closeBatch(batchId);
+        _sendValue(markets[marketId].provider, bounty);
+    }
+
+    // Permissionless close once the submission deadline has passed; the caller earns the bounty.
+    function closeExpiredBatch(uint256 batchId) external whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (!batch.isOpen) revert BatchNotOpen();
+        if (block.timestamp <= batch.submissionDeadline) revert DeadlineNotReached();
+        uint256 bounty = _closeBatch(batchId);
+        _sendValue(msg.sender, bounty);
+        emit KeeperRewarded(batchId, msg.sender, bounty);
+    }
+
+    // Abandons a batch that has not been evaluated, e.g. because its test set is unusable or the
+    // oracle is down. Every predictor can then reclaim their stake with claimRefund.
+    function cancelBatch(
+        uint256 batchId
+    ) external onlyProvider onlyMarketProvider(batches[batchId].marketId) whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (batch.cancelled || batch.evaluated) revert BatchNotCancellable();
+
+        if (batch.isOpen) {
+            uint256 bounty = _closeBatch(batchId);
+            _sendValue(markets[batch.marketId].provider, bounty);
+        }
+        batch.cancelled = true;
+
+        emit BatchCancelled(batchId, msg.sender);
+    }
+
+    function getBatchStatus(uint256 batchId) public view returns (BatchStatus) {
+        Batch storage batch = batches[batchId];
+        if (batch.marketId == 0) revert BatchNotFound();
+        if (batch.cancelled || MarketEvaluation.timedOut(batch)) return BatchStatus.Cancelled;
+        if (batch.isOpen) return BatchStatus.Open;
+        if (MarketDisputes.isOpen(disputes[batchId])) return BatchStatus.Disputed;
+        if (batch.evaluated) return BatchStatus.Settled;
+        if (batch.evaluationPending) return BatchStatus.EvaluationRequested;
+        return BatchStatus.Closed;
+    }
+
+    // Batches in id order, i.e. the order they were opened across all markets
+    function getBatches(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BatchSummary[] memory page, uint256 total) {
+        total = currentBatchId;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        page = new BatchSummary[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            uint256 batchId = i + 1;
+            Batch storage batch = batches[batchId];
+            page[i - start] = BatchSummary({
+                batchId: batchId,
+                marketId: batch.marketId,
+                status: getBatchStatus(batchId),
+                submissionCount: batch.submissionCount,
+                submissionDeadline: batch.submissionDeadline,
+                evaluationDeadline: batch.evaluationDeadline,
+                actualScore: batch.actualScore,
+                winnerCount: batch.winnerCount,
+                totalStaked: batch.totalStaked
+            });
+        }
+    }
+
+    // A batch's predictions in submission order
+    function getBatchPredictions(
+        uint256 batchId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        BatchStatus status = getBatchStatus(batchId);
+        address[] storage predictors = batchPredictors[batchId];
+        total = predictors.length;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        page = new PredictionSummary[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = _predictionSummary(batchId, predictors[i], status);
+        }
+    }
+
+    // An address's predictions across all batches, oldest first
+    function getPredictionHistory(
+        address account,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        uint256[] storage batchIds = predictorBatches[account];
+        total = batchIds.length;
+        (uint256 start, uint256 end) = _pageBounds(total, offset, limit);
+        page = new PredictionSummary[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = _predictionSummary(batchIds[i], account, getBatchStatus(batchIds[i]));
+        }
+    }
+
+    // Seconds until `account` may submit a prediction, and request a decryption, again
+    function cooldownRemaining(address account) external view returns (uint256 submission, uint256 decryption) {
+        submission = _remaining(lastSubmissionTime[account] + cooldownSeconds);
+        decryption = _remaining(lastDecryptionRequestTime[account] + cooldownSeconds);
+    }
+
+    function _predictionSummary(
+        uint256 batchId,
+        address account,
+        BatchStatus status
+    ) internal view returns (PredictionSummary memory) {
+        Prediction storage prediction = predictions[batchId][account];
+        return
+            PredictionSummary({
+                batchId: batchId,
+                predictor: account,
+                amount: prediction.amount,
+                confidential: prediction.confidential,
+                claimed: prediction.claimed,
+                status: status
+            });
+    }
+
+    function _pageBounds(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256, uint256) {
+        if (offset >= total) return (total, total);
+        uint256 end = limit > total - offset ? total : offset + limit;
+        return (offset, end);
+    }
+
+    function _remaining(uint256 until) internal view returns (uint256) {
+        return until > block.timestamp ? until - block.timestamp : 0;
+    }
+
+    function _closeBatch(uint256 batchId) internal returns (uint256 bounty) {
+        Batch storage batch = batches[batchId];
+        batch.isOpen = false;
+        bounty = batch.keeperBounty;
+        batch.keeperBounty = 0;
+        emit BatchClosed(batchId, batch.marketId);
+    }
+
+    function getActiveMarkets() external view returns (uint256[] memory marketIds) {
+        uint256 activeCount = 0;
+        for (uint256 id = 1; id <= marketCount; id++) {
+            if (markets[id].active) activeCount++;
+        }
+
+        marketIds = new uint256[](activeCount);
+        uint256 next = 0;
+        for (uint256 id = 1; id <= marketCount; id++) {
+            if (markets[id].active) marketIds[next++] = id;
+        }
+    }
+
+    function getMarket(uint256 marketId) external view returns (Market memory) {
+        if (markets[marketId].provider == address(0)) revert MarketNotFound();
+        return markets[marketId];
+    }
+
+    function getBucketBounds(uint256 marketId) external view returns (uint32[] memory) {
+        return markets[marketId].config.bucketBounds;
+    }
+
+    // Bucket i covers [bounds[i-1], bounds[i]); the first starts at 0 and the last ends at 100.
+    function bucketOf(uint256 marketId, uint32 score) public view returns (uint8 bucket) {
+        uint32[] storage bounds = markets[marketId].config.bucketBounds;
+        while (bucket < bounds.length && score >= bounds[bucket]) bucket++;
+    }
+
+    // Result of an evaluated bucket batch: the winning bucket and its pool, which shares the
+    // net pot parimutuel-style (each winner gets stake * netPot / winningStake).
+    function getBucketSettlement(
+        uint256 batchId
+    ) external view returns (uint8 winningBucket, uint256 winningPool, uint256 totalPool) {
+        Batch storage batch = batches[batchId];
+        if (markets[batch.marketId].config.marketType != MarketType.Bucket) revert WrongMarketType();
+        if (!batch.evaluated) revert BatchNotEvaluated();
+        return (bucketOf(batch.marketId, batch.actualScore), batch.winningStake, _netPot(batch));
+    }
+
+    // The crowd's mean prediction, in hundredths of a point, to set against the actual score. Not
+    // revealed for batches with fewer than MIN_CONSENSUS_PREDICTIONS. Only the plain sum is ever
+    // decrypted: stakes are public, so a stake-weighted sum would be a second equation in the
+    // same scores.
+    // Bucket markets have none: a mean of bucket indexes is not a score.
+    function getCrowdConsensus(
+        uint256 batchId
+    ) external view returns (bool revealed, uint256 meanScore, uint32 actualScore) {
+        Batch storage batch = batches[batchId];
+        if (markets[batch.marketId].config.marketType != MarketType.Score) revert WrongMarketType();
+        if (!batch.evaluated) revert BatchNotEvaluated();
+        if (!batch.consensusRevealed) return (false, 0, batch.actualScore);
+        meanScore = (uint256(batch.scoreSum) * 100) / batch.submissionCount;
+        return (true, meanScore, batch.actualScore);
+    }
+
+    // Pot of an evaluated batch: everything staked, the protocol fee skimmed from it, and the
+    // remainder paid out to winners (or refunded pro-rata if nobody won). The fee is only accrued
+    // once the result is final.
+    function getBatchPot(uint256 batchId) external view returns (uint256 grossPot, uint256 fee, uint256 netPot) {
+        Batch storage batch = batches[batchId];
+        if (!batch.evaluated) revert BatchNotEvaluated();
+        fee = _fee(batch);
+        return (batch.totalStaked, fee, batch.totalStaked - fee);
+    }
+
+    function _fee(Batch storage batch) internal view returns (uint256) {
+        return (batch.totalStaked * batch.feeBps) / 10_000;
+    }
+
+    function _netPot(Batch storage batch) internal view returns (uint256) {
+        return batch.totalStaked - batch.feeAmount;
+    }
+
+    // Entry point for predictions encrypted client-side (relayer SDK): the input proof binds the
+    // ciphertext to this contract and to msg.sender.
+    function submitPrediction(
+        uint256 batchId,
+        externalEuint32 encryptedScore,
+        bytes calldata inputProof,
+        uint256 amount
+    ) external payable whenNotPaused submissionRateLimited {
+        _requireMarketType(batchId, MarketType.Score);
+        euint32 score = FHE.fromExternal(encryptedScore, inputProof);
+        _recordPrediction(batchId, score, amount);
     }
 
-    function closeBatch() external onlyProvider whenNotPaused {
-        if (!batches[currentBatchId].isOpen) revert BatchClosed();
-        batches[currentBatchId].isOpen = false;
-        emit BatchClosed(currentBatchId);
+    // Entry point for bucket markets. An index past the last bucket is accepted but never wins,
+    // so the contract learns nothing about the choice.
+    function submitBucketPrediction(
+        uint256 batchId,
+        externalEuint8 encryptedBucket,
+        bytes calldata inputProof,
+        uint256 amount
+    ) external payable whenNotPaused submissionRateLimited {
+        _requireMarketType(batchId, MarketType.Bucket);
+        euint32 bucket = FHE.asEuint32(FHE.fromExternal(encryptedBucket, inputProof));
+        _recordPrediction(batchId, bucket, amount);
     }
 
+    // Variant for callers that already hold an on-chain handle, e.g. another contract.
+    // The sender must have ACL access to the ciphertext it hands over.
     function submitPrediction(
         uint256 batchId,
         euint32 encryptedScore,
         uint256 amount
     ) external payable whenNotPaused submissionRateLimited {
-        if (!batches[batchId].isOpen) revert BatchClosed();
+        if (!FHE.isSenderAllowed(encryptedScore)) revert UnauthorizedCiphertext();
+        _requireMarketType(batchId, MarketType.Score);
+        _recordPrediction(batchId, encryptedScore, amount);
+    }
+
+    // Stakes from the confidential balance: the amount, in gwei, is never visible on-chain. A stake
+    // that is unaffordable or outside the market's bounds becomes 0 instead of reverting, since a
+    // revert would leak information about the balance.
+    function submitConfidentialPrediction(
+        uint256 batchId,
+        externalEuint32 encryptedScore,
+        externalEuint64 encryptedStake,
+        bytes calldata inputProof
+    ) external whenNotPaused submissionRateLimited {
+        _submitConfidential(batchId, msg.sender, encryptedScore, encryptedStake, inputProof);
+    }
+
+    // Gasless variant: a relayer submits a PredictionIntent signed by the predictor and pays the gas.
+    // Input proofs are bound to the caller, so the predictor encrypts for the relayer's address; the
+    // signature covers the handles, so the relayer can neither swap them nor reuse the proof. The
+    // stake comes from the predictor's confidential balance, and the cooldown is the predictor's.
+    function submitPredictionWithSig(
+        address predictor,
+        uint256 batchId,
+        externalEuint32 encryptedScore,
+        externalEuint64 encryptedStake,
+        bytes calldata inputProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused {
+        if (block.timestamp > deadline) revert IntentExpired();
+        uint256 nonce = nonces[predictor]++;
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PREDICTION_INTENT_TYPEHASH,
+                predictor,
+                batchId,
+                externalEuint32.unwrap(encryptedScore),
+                externalEuint64.unwrap(encryptedStake),
+                nonce,
+                deadline
+            )
+        );
+        MarketIntents.verify(predictor, structHash, signature);
+
+        _useSubmissionCooldown(predictor);
+        _submitConfidential(batchId, predictor, encryptedScore, encryptedStake, inputProof);
+
+        emit PredictionIntentExecuted(predictor, msg.sender, nonce);
+    }
+
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return MarketIntents.domainSeparator();
+    }
+
+    function _submitConfidential(
+        uint256 batchId,
+        address predictor,
+        externalEuint32 encryptedScore,
+        externalEuint64 encryptedStake,
+        bytes calldata inputProof
+    ) internal {
+        _requireAcceptingPredictions(batchId, predictor);
+        _requireMarketType(batchId, MarketType.Score);
+        euint32 score = FHE.fromExternal(encryptedScore, inputProof);
+        euint64 requested = FHE.fromExternal(encryptedStake, inputProof);
+        euint64 stake = MarketPredictions.debitStake(batches, markets, confidentialBalances, batchId, predictor, requested);
+
+        _storePrediction(batchId, predictor, score, stake, 0, true);
+
+        emit ConfidentialPredictionSubmitted(batchId, predictor);
+    }
+
+    function _useSubmissionCooldown(address predictor) internal {
+        if (block.timestamp < lastSubmissionTime[predictor] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+        lastSubmissionTime[predictor] = block.timestamp;
+    }
+
+    function _recordPrediction(uint256 batchId, euint32 encryptedScore, uint256 amount) internal {
+        _requireAcceptingPredictions(batchId, msg.sender);
         if (msg.value != amount) revert("Value_Mismatch");
-        if (predictions[batchId][msg.sender].amount > 0) {
+        MarketConfig storage config = markets[batches[batchId].marketId].config;
+        if (amount < config.minStake || (config.maxStake != 0 && amount > config.maxStake)) {
+            revert StakeOutOfRange();
+        }
+        if (amount > type(uint64).max) revert StakeOutOfRange();
+
+        _storePrediction(batchId, msg.sender, encryptedScore, FHE.asEuint64(uint64(amount)), amount, false);
+        batches[batchId].plainStakeTotal += amount;
+
+        emit PredictionSubmitted(batchId, msg.sender, amount);
+    }
+
+    function _requireAcceptingPredictions(uint256 batchId, address predictor) internal view {
+        if (!batches[batchId].isOpen) revert BatchNotOpen();
+        if (block.timestamp > batches[batchId].submissionDeadline) revert SubmissionDeadlinePassed();
+        if (predictions[batchId][predictor].predictor != address(0)) {
             revert("Already_Predicted_In_Batch"); // One prediction per address per batch
         }
+    }
 
-        // Initialize encryptedScore if it's not already initialized
-        _initIfNeeded(encryptedScore);
+    function _requireMarketType(uint256 batchId, MarketType marketType) internal view {
+        if (markets[batches[batchId].marketId].config.marketType != marketType) revert WrongMarketType();
+    }
 
-        predictions[batchId][msg.sender] = Prediction({
-            predictor: msg.sender,
-            encryptedScore: encryptedScore,
-            amount: amount
-        });
-        batches[batchId].totalEncryptedScore = batches[batchId].totalEncryptedScore + amount;
-        batches[batchId].submissionCount++;
+    function _storePrediction(
+        uint256 batchId,
+        address predictor,
+        euint32 encryptedScore,
+        euint64 encryptedAmount,
+        uint256 amount,
+        bool confidential
+    ) internal {
+        MarketPredictions.store(
+            batches,
+            markets,
+            predictions,
+            batchPredictors,
+            predictorBatches,
+            batchId,
+            predictor,
+            encryptedScore,
+            encryptedAmount,
+            amount,
+            confidential
+        );
+    }
 
-        emit PredictionSubmitted(batchId, msg.sender, amount);
+    // Confidential ledger: deposits are public, but every later movement of the balance is encrypted.
+    // Balances are kept in gwei, so deposits must be whole gwei.
+    function deposit() external payable whenNotPaused {
+        if (msg.value == 0 || msg.value % BALANCE_UNIT != 0) revert InvalidDeposit();
+        uint64 amount = uint64(msg.value / BALANCE_UNIT); // type(uint64).max gwei is more ether than exists
+        _setBalance(msg.sender, FHE.add(confidentialBalances[msg.sender], FHE.asEuint64(amount)));
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    // The amount is in gwei and is only revealed to pay it out
+    function withdraw(externalEuint64 encryptedAmount, bytes calldata inputProof) external whenNotPaused {
+        MarketBalances.withdraw(confidentialBalances, withdrawalContexts, encryptedAmount, inputProof);
+    }
+
+    function withdrawCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyDecryptionOracle {
+        MarketBalances.payWithdrawal(withdrawalContexts, requestId, cleartexts, proof);
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return confidentialBalances[account];
     }
 
+    function _setBalance(address account, euint64 balance) internal {
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+        confidentialBalances[account] = balance;
+    }
+
+    // Uploads encrypted (ground-truth label, model output) pairs for a batch's test set. Pairs are
+    // compared with FHE.eq as they arrive, so only the encrypted running count of correct outputs
+    // is kept. Large test sets can be uploaded over several calls until the batch is evaluated.
+    function uploadTestSet(
+        uint256 batchId,
+        externalEuint8[] calldata labels,
+        externalEuint8[] calldata outputs,
+        bytes calldata inputProof
+    ) external onlyEvaluator whenNotPaused {
+        if (batches[batchId].marketId == 0) revert BatchNotFound();
+        if (batches[batchId].evaluated) revert BatchAlreadyEvaluated();
+        if (FHE.isInitialized(batches[batchId].encryptedActualScore)) revert SettlementStarted();
+        if (labels.length == 0 || labels.length != outputs.length) revert InvalidTestSet();
+
+        TestSetEvaluation storage evaluation = testSetEvaluations[batchId];
+        if (evaluation.evaluator == address(0)) {
+            evaluation.evaluator = msg.sender;
+        } else if (evaluation.evaluator != msg.sender) {
+            revert NotEvaluator();
+        }
+
+        MarketSettlement.countCorrectOutputs(evaluation, labels, outputs, inputProof);
+
+        emit TestSetUploaded(batchId, msg.sender, uint32(labels.length), evaluation.sampleCount);
+    }
+
+    // Settles predictions [start, start + count) of a closed batch: each is compared with the
+    // actual score and added to the encrypted winner count and winning stake. Chunks must follow
+    // each other in submission order, so a batch of any size can be settled across several
+    // transactions before requestBatchEvaluation reveals the totals. The first chunk fixes the
+    // actual score, after which the test set can no longer change.
+    function settleBatchChunk(
+        uint256 batchId,
+        uint256 start,
+        uint256 count
+    ) external onlyProvider onlyMarketProvider(batches[batchId].marketId) whenNotPaused {
+        _requireEvaluable(batchId);
+        Batch storage batch = batches[batchId];
+        uint256 end = start + count;
+        if (start != batch.settlementProgress || count == 0 || end > batchPredictors[batchId].length) {
+            revert InvalidSettlementRange();
+        }
+        _settlePredictions(batchId, end);
+    }
+
+    function _settlePredictions(uint256 batchId, uint256 end) internal {
+        MarketSettlement.settlePredictions(batches, markets, testSetEvaluations, batchPredictors, predictions, batchId, end);
+    }
+
+    // Settles whatever predictions are left, so small batches can skip settleBatchChunk
     function requestBatchEvaluation(uint256 batchId)
         external
         onlyProvider
+        onlyMarketProvider(batches[batchId].marketId)
         whenNotPaused
         decryptionRequestRateLimited
     {
-        if (batches[batchId].isOpen) revert BatchNotClosed();
+        _requireEvaluable(batchId);
+        _settlePredictions(batchId, batchPredictors[batchId].length);
 
-        euint32 actualEncryptedScore = _getActualEncryptedScore(batchId); // Placeholder for actual FHE evaluation logic
-        _initIfNeeded(actualEncryptedScore);
+        MarketEvaluation.request(batches, markets, decryptionContexts, batchId);
+    }
 
-        // 1. Prepare Ciphertexts: actualEncryptedScore
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(actualEncryptedScore);
+    function _requireEvaluable(uint256 batchId) internal view {
+        Batch storage batch = batches[batchId];
+        if (batch.isOpen) revert BatchNotClosed();
+        if (batch.evaluated) revert BatchAlreadyEvaluated();
+        if (batch.cancelled) revert BatchIsCancelled();
+        if (MarketEvaluation.timedOut(batch)) revert EvaluationTimedOut();
+    }
 
-        // 2. Compute State Hash
-        bytes32 stateHash = _hashCiphertexts(cts);
+    function myCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyDecryptionOracle {
+        MarketEvaluation.complete(batches, markets, decryptionContexts, requestId, cleartexts, proof, challengePeriod);
+    }
 
-        // 3. Request Decryption
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+    // Anyone can contest an evaluation within its challenge window by posting the dispute bond.
+    // Claims on the batch stay frozen until an arbitrator resolves the dispute, or its resolution
+    // period runs out.
+    function disputeResult(uint256 batchId) external payable whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (!batch.evaluated) revert BatchNotEvaluated();
+        if (block.timestamp > batch.challengeDeadline) revert ChallengeWindowClosed();
+        if (disputes[batchId].open) revert DisputeOpen();
+        if (msg.value != disputeBond) revert InvalidBond();
 
-        // 4. Store Context
-        decryptionContexts[requestId] = DecryptionContext({
-            batchId: batchId,
-            stateHash: stateHash,
-            processed: false
+        disputes[batchId] = Dispute({
+            challenger: msg.sender,
+            bond: msg.value,
+            open: true,
+            resolutionDeadline: uint64(block.timestamp) + disputeResolutionPeriod
         });
 
-        emit DecryptionRequested(requestId, batchId);
+        emit ResultDisputed(batchId, msg.sender, msg.value);
     }
 
-    function myCallback(
+    // Upholding voids the evaluation so the batch is evaluated again; rejecting lets the result stand
+    function resolveDispute(uint256 batchId, bool upheld) external onlyArbitrator {
+        MarketDisputes.resolve(disputes, batches, markets, testSetEvaluations, batchId, upheld);
+    }
+
+    // Anyone can dismiss a dispute left unresolved past its resolution deadline
+    function dismissDispute(uint256 batchId) external {
+        MarketDisputes.dismiss(disputes, batches, markets, batchId);
+    }
+
+    // Pull-based payout for an evaluated batch, available once its challenge window has passed
+    // with no dispute open (see MarketClaims.claimReward for the payout rule)
+    function claimReward(uint256 batchId) external whenNotPaused {
+        _finalizeResult(batchId);
+        MarketClaims.claimReward(batches, predictions, claimContexts, confidentialBalances, batchId);
+    }
+
+    function claimCallback(
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
-    ) public {
-        // 5a. Replay Guard
-        if (decryptionContexts[requestId].processed) revert ReplayDetected();
-
-        // 5b. State Verification
-        // Rebuild cts in the exact same order as in requestBatchEvaluation
-        // For this contract, it's just the actualEncryptedScore.
-        // We need to get it from storage. This assumes actualEncryptedScore for a batch is stored.
-        // For simplicity, let's assume it's stored in a mapping `batchActualEncryptedScores`
-        // In a real contract, this would be fetched from where it was stored.
-        // For this example, we'll simulate it by re-calculating it (not ideal, but for demo).
-        // A better approach: store the ciphertexts that were sent for decryption.
-        // Here, we'll assume `batches[decryptionContexts[requestId].batchId].actualEncryptedScore` exists.
-        // For this contract, we don't store it, so this part is illustrative.
-        // The key is that the *same* ciphertexts must be used to re-calculate the hash.
-
-        // Let's assume the ciphertext was the `actualEncryptedScore` for the batch.
-        // We need to retrieve it. If it's not stored, this verification cannot be done properly.
-        // For the purpose of this example, we'll assume it's available.
-        // This is a simplification. A robust contract would store the exact ciphertexts.
-        // For now, we'll use a placeholder:
-        euint32 actualEncryptedScoreForBatch = _getActualEncryptedScore(decryptionContexts[requestId].batchId);
-
-
-        bytes32[] memory currentCts = new bytes32[](1);
-        currentCts[0] = FHE.toBytes32(actualEncryptedScoreForBatch);
-        bytes32 currentHash = _hashCiphertexts(currentCts);
-
-        if (currentHash != decryptionContexts[requestId].stateHash) {
-            revert StateMismatch();
-        }
+    ) public onlyDecryptionOracle {
+        MarketClaims.payClaim(batches, predictions, claimContexts, requestId, cleartexts, proof);
+    }
 
-        // 5c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof();
+    // Returns the full stake of a cancelled or timed-out batch; confidential stakes go back to the
+    // confidential balance. The first refund of a timed-out batch records it as cancelled.
+    function claimRefund(uint256 batchId) external whenNotPaused {
+        Batch storage batch = batches[batchId];
+        if (!batch.cancelled) {
+            if (!MarketEvaluation.timedOut(batch)) revert BatchNotCancelled();
+            batch.cancelled = true;
+            emit BatchEvaluationTimedOut(batchId);
         }
+        MarketClaims.claimRefund(predictions, confidentialBalances, batchId);
+    }
 
-        // 5d. Decode & Finalize
-        uint256 actualScore = abi.decode(cleartexts, (uint256)); // Decode the single cleartext value
-
-        uint256 batchId = decryptionContexts[requestId].batchId;
-        uint256 totalStaked = batches[batchId].totalEncryptedScore;
-        uint256 winnerCount = _determineWinners(batchId, actualScore);
-
-        decryptionContexts[requestId].processed = true;
-
-        emit DecryptionCompleted(requestId, batchId, actualScore, totalStaked, winnerCount);
-        // Further logic for distributing rewards, etc. would go here
+    // Folds the outcomes of predictions [start, start + count) of a batch into their predictors'
+    // reputations. Only final results count: the challenge window must have passed with no
+    // dispute open. Anyone can push a batch through, in submission order.
+    // Settlement and claims leave reputations alone, since a dispute can still void the result
+    // then; until every chunk of a batch has been recorded here, its outcomes are not counted.
+    function recordReputations(uint256 batchId, uint256 start, uint256 count) external whenNotPaused {
+        _finalizeResult(batchId);
+        MarketReputation.record(reputations, batches, batchPredictors, predictions, batchId, start, count);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    // Opt-in: publishes the caller's encrypted accuracy so that others (or other contracts) can
+    // rely on it. Later settlements keep updating the encrypted score; reveal again to refresh.
+    function revealReputation() external whenNotPaused decryptionRequestRateLimited {
+        MarketReputation.requestReveal(reputations, revealContexts);
     }
 
-    function _initIfNeeded(euint32 value) internal {
-        if (!FHE.isInitialized(value)) {
-            FHE.asEuint32(0); // Initialize with a dummy value if not already initialized
-        }
+    function reputationCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyDecryptionOracle {
+        MarketReputation.revealCallback(reputations, revealContexts, requestId, cleartexts, proof);
     }
 
-    function _requireInitialized(euint32 value) internal pure {
-        if (!FHE.isInitialized(value)) {
-            revert NotInitialized();
+    // A result is final once its challenge window has passed with no dispute open. Only then is the
+    // protocol fee accrued: until then an upheld dispute can void the result and, should the
+    // re-evaluation time out, every stake is refunded in full. The pot and rate are fixed once the
+    // batch closes, so the first call accrues the fee and later ones find it set.
+    function _finalizeResult(uint256 batchId) internal {
+        Batch storage batch = batches[batchId];
+        if (!batch.evaluated) revert BatchNotEvaluated();
+        if (MarketDisputes.isOpen(disputes[batchId])) revert DisputeOpen();
+        if (block.timestamp <= batch.challengeDeadline) revert ChallengeWindowActive();
+
+        if (batch.feeAmount == 0) {
+            uint256 fee = _fee(batch);
+            batch.feeAmount = fee;
+            accruedFees += fee;
         }
     }
 
-    // Placeholder for actual FHE evaluation logic
-    // In a real contract, this would involve FHE operations on encrypted data
-    // For this example, it returns a dummy encrypted score
-    function _getActualEncryptedScore(uint256 batchId) internal view returns (euint32) {
-        // This is a placeholder. The actual score would come from an FHE evaluation
-        // on encrypted test data. For this contract, we return a fixed dummy value.
-        // The key is that it's an euint32.
-        euint32 dummyScore = FHE.asEuint32(0); // Represents an encrypted score
-        return dummyScore;
+    function _sendValue(address to, uint256 amount) internal {
+        if (amount == 0) return;
+        (bool success, ) = payable(to).call{ value: amount }("");
+        if (!success) revert TransferFailed();
     }
 
-    // Placeholder for determining winners
-    // This would compare the `actualScore` with user predictions
-    function _determineWinners(uint256 batchId, uint256 actualScore) internal view returns (uint256 winnerCount) {
-        // This is a placeholder. Actual logic would iterate through predictions
-        // and compare `actualScore` with decrypted user predictions (if they were decrypted)
-        // or compare encrypted predictions with encrypted actual score using FHE (more complex).
-        // For this contract, we return a dummy count.
-        return 1; // Dummy winner count
+    function getDecryptionHandles(uint256 requestId) external view returns (bytes32[] memory) {
+        return decryptionContexts[requestId].handles;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE, BALANCE_UNIT } from "./AI_Predict_Market_Fhe.sol";
+
+// Withdrawals from AIPredictMarketFHE confidential balances, linked externally (see MarketSettlement)
+library MarketBalances {
+    // The amount is in gwei. Requests more than the balance withdraw 0, and the amount is only
+    // revealed to pay it out.
+    function withdraw(
+        mapping(address => euint64) storage confidentialBalances,
+        mapping(uint256 => AIPredictMarketFHE.WithdrawalContext) storage withdrawalContexts,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external {
+        euint64 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 balance = confidentialBalances[msg.sender];
+        euint64 amount = FHE.select(FHE.le(requested, balance), requested, FHE.asEuint64(0));
+        balance = FHE.sub(balance, amount);
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+        confidentialBalances[msg.sender] = balance;
+        FHE.allowThis(amount);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(amount);
+        uint256 requestId = FHE.requestDecryption(cts, AIPredictMarketFHE.withdrawCallback.selector);
+        withdrawalContexts[requestId] = AIPredictMarketFHE.WithdrawalContext({ account: msg.sender, processed: false });
+
+        emit AIPredictMarketFHE.WithdrawalRequested(requestId, msg.sender);
+    }
+
+    function payWithdrawal(
+        mapping(uint256 => AIPredictMarketFHE.WithdrawalContext) storage withdrawalContexts,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) external {
+        AIPredictMarketFHE.WithdrawalContext storage withdrawal = withdrawalContexts[requestId];
+        if (withdrawal.processed) revert AIPredictMarketFHE.ReplayDetected();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint256 amount = uint256(abi.decode(cleartexts, (uint64))) * BALANCE_UNIT;
+        withdrawal.processed = true;
+        _sendValue(withdrawal.account, amount);
+
+        emit AIPredictMarketFHE.Withdrawn(withdrawal.account, amount);
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) return;
+        (bool success, ) = payable(to).call{ value: amount }("");
+        if (!success) revert AIPredictMarketFHE.TransferFailed();
+    }
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE, BALANCE_UNIT } from "./AI_Predict_Market_Fhe.sol";
+
+// Payouts and refunds of AIPredictMarketFHE batches, linked externally (see MarketSettlement).
+// Callers check that the result is final, or that the batch is cancelled, before calling in.
+library MarketClaims {
+    // Pull-based payout for an evaluated batch. If no stake won, the stake is refunded immediately,
+    // net of its share of the fee; winners always staked something, so winningStake == 0 means
+    // nobody won. Otherwise the caller's encrypted win flag is sent for decryption and
+    // `claimCallback` pays the pro-rata share of the net pot (stake / winningStake) if the flag
+    // turns out to be true. Confidential predictions are credited at once, without decrypting.
+    function claimReward(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        mapping(uint256 => AIPredictMarketFHE.ClaimContext) storage claimContexts,
+        mapping(address => euint64) storage confidentialBalances,
+        uint256 batchId
+    ) external {
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        AIPredictMarketFHE.Prediction storage prediction = _takeClaim(predictions[batchId][msg.sender]);
+
+        if (prediction.confidential) {
+            _credit(confidentialBalances, msg.sender, FHE.asEuint64(_confidentialPayout(batch, prediction)));
+            emit AIPredictMarketFHE.ConfidentialPayoutCredited(batchId, msg.sender);
+            return;
+        }
+
+        if (batch.winningStake == 0) {
+            uint256 refund = batch.feeAmount == 0
+                ? prediction.amount
+                : (prediction.amount * _netPot(batch)) / batch.totalStaked; // Refunds bear their share of the fee
+            _sendValue(msg.sender, refund);
+            emit AIPredictMarketFHE.RefundIssued(batchId, msg.sender, refund);
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(prediction.isWinner);
+        uint256 requestId = FHE.requestDecryption(cts, AIPredictMarketFHE.claimCallback.selector);
+
+        claimContexts[requestId] = AIPredictMarketFHE.ClaimContext({
+            batchId: batchId,
+            predictor: msg.sender,
+            processed: false
+        });
+
+        emit AIPredictMarketFHE.ClaimRequested(requestId, batchId, msg.sender);
+    }
+
+    function payClaim(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        mapping(uint256 => AIPredictMarketFHE.ClaimContext) storage claimContexts,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) external {
+        AIPredictMarketFHE.ClaimContext storage claim = claimContexts[requestId];
+        if (claim.processed) revert AIPredictMarketFHE.ReplayDetected();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool isWinner = abi.decode(cleartexts, (bool));
+        claim.processed = true;
+
+        uint256 payout = 0;
+        if (isWinner) {
+            AIPredictMarketFHE.Batch storage batch = batches[claim.batchId];
+            payout = (predictions[claim.batchId][claim.predictor].amount * _netPot(batch)) / batch.winningStake;
+            _sendValue(claim.predictor, payout);
+        }
+
+        emit AIPredictMarketFHE.RewardClaimed(claim.batchId, claim.predictor, payout);
+    }
+
+    // Returns the caller's full stake; a confidential one goes back to the confidential balance
+    function claimRefund(
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        mapping(address => euint64) storage confidentialBalances,
+        uint256 batchId
+    ) external {
+        AIPredictMarketFHE.Prediction storage prediction = _takeClaim(predictions[batchId][msg.sender]);
+
+        if (prediction.confidential) {
+            _credit(confidentialBalances, msg.sender, FHE.div(prediction.encryptedAmount, uint64(BALANCE_UNIT)));
+        } else {
+            _sendValue(msg.sender, prediction.amount);
+        }
+
+        emit AIPredictMarketFHE.RefundIssued(batchId, msg.sender, prediction.amount);
+    }
+
+    function _takeClaim(
+        AIPredictMarketFHE.Prediction storage prediction
+    ) private returns (AIPredictMarketFHE.Prediction storage) {
+        if (prediction.predictor == address(0)) revert AIPredictMarketFHE.NoPrediction();
+        if (prediction.claimed) revert AIPredictMarketFHE.AlreadyClaimed();
+        prediction.claimed = true;
+        return prediction;
+    }
+
+    // Same payout rule as claimReward and payClaim, computed on the encrypted stake and win flag so
+    // that neither is revealed. The stake is taken in gwei, the unit the payout is credited in: a
+    // wei stake times a wei pot wraps euint128 once both pass ~18 ETH. Sub-gwei remainders stay in
+    // the market.
+    function _confidentialPayout(
+        AIPredictMarketFHE.Batch storage batch,
+        AIPredictMarketFHE.Prediction storage prediction
+    ) private returns (euint128) {
+        euint128 stake = FHE.asEuint128(FHE.div(prediction.encryptedAmount, uint64(BALANCE_UNIT)));
+        if (batch.winningStake == 0) {
+            return
+                batch.feeAmount == 0 // Refund
+                    ? stake
+                    : FHE.div(FHE.mul(stake, uint128(_netPot(batch))), uint128(batch.totalStaked));
+        }
+        euint128 share = FHE.div(FHE.mul(stake, uint128(_netPot(batch))), uint128(batch.winningStake));
+        return FHE.select(prediction.isWinner, share, FHE.asEuint128(0));
+    }
+
+    function _credit(mapping(address => euint64) storage balances, address account, euint64 amount) private {
+        euint64 balance = FHE.add(balances[account], amount);
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+        balances[account] = balance;
+    }
+
+    function _netPot(AIPredictMarketFHE.Batch storage batch) private view returns (uint256) {
+        return batch.totalStaked - batch.feeAmount;
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) return;
+        (bool success, ) = payable(to).call{ value: amount }("");
+        if (!success) revert AIPredictMarketFHE.TransferFailed();
+    }
+}
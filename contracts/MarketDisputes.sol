@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE } from "./AI_Predict_Market_Fhe.sol";
+
+// Disputes over AIPredictMarketFHE evaluation results, linked externally (see MarketSettlement)
+library MarketDisputes {
+    // An upheld dispute returns the bond and voids the evaluation: the test set is discarded so
+    // the evaluator can upload a corrected one, and the provider evaluates the batch again. A
+    // rejected dispute slashes the bond to the market provider and the result stands.
+    function resolve(
+        mapping(uint256 => AIPredictMarketFHE.Dispute) storage disputes,
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(uint256 => AIPredictMarketFHE.TestSetEvaluation) storage testSetEvaluations,
+        uint256 batchId,
+        bool upheld
+    ) external {
+        AIPredictMarketFHE.Dispute storage dispute = disputes[batchId];
+        if (!isOpen(dispute)) revert AIPredictMarketFHE.NoOpenDispute();
+        uint256 bond = _close(dispute);
+
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        AIPredictMarketFHE.Market storage market = markets[batch.marketId];
+        if (upheld) {
+            batch.evaluated = false;
+            batch.challengeDeadline = 0;
+            // The corrected evaluation settles from scratch and gets a fresh evaluation period
+            batch.evaluationDeadline = uint64(block.timestamp) + market.config.evaluationPeriod;
+            batch.settlementProgress = 0;
+            batch.encryptedActualScore = euint32.wrap(0);
+            batch.encryptedActualBucket = euint32.wrap(0);
+            delete testSetEvaluations[batchId];
+            _sendValue(dispute.challenger, bond);
+        } else {
+            _sendValue(market.provider, bond);
+        }
+
+        emit AIPredictMarketFHE.DisputeResolved(batchId, msg.sender, upheld);
+    }
+
+    // A dispute left unresolved past its deadline lapses: the result stands, as if the dispute had
+    // been rejected. Anyone can then dismiss it, which slashes the bond to the market provider.
+    function dismiss(
+        mapping(uint256 => AIPredictMarketFHE.Dispute) storage disputes,
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        uint256 batchId
+    ) external {
+        AIPredictMarketFHE.Dispute storage dispute = disputes[batchId];
+        if (!dispute.open) revert AIPredictMarketFHE.NoOpenDispute();
+        if (block.timestamp <= dispute.resolutionDeadline) revert AIPredictMarketFHE.ResolutionPeriodActive();
+
+        uint256 bond = _close(dispute);
+        _sendValue(markets[batches[batchId].marketId].provider, bond);
+
+        emit AIPredictMarketFHE.DisputeDismissed(batchId, bond);
+    }
+
+    // Claims on the batch are frozen while this holds
+    function isOpen(AIPredictMarketFHE.Dispute storage dispute) internal view returns (bool) {
+        return dispute.open && block.timestamp <= dispute.resolutionDeadline;
+    }
+
+    function _close(AIPredictMarketFHE.Dispute storage dispute) private returns (uint256 bond) {
+        dispute.open = false;
+        bond = dispute.bond;
+        dispute.bond = 0;
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        if (amount == 0) return;
+        (bool success, ) = payable(to).call{ value: amount }("");
+        if (!success) revert AIPredictMarketFHE.TransferFailed();
+    }
+}
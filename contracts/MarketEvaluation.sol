@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE, MIN_CONSENSUS_PREDICTIONS } from "./AI_Predict_Market_Fhe.sol";
+
+// Decryption of AIPredictMarketFHE batch results, linked externally (see MarketSettlement)
+library MarketEvaluation {
+    // Sends a settled batch's encrypted totals for decryption; `complete` records the result
+    function request(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(uint256 => AIPredictMarketFHE.DecryptionContext) storage decryptionContexts,
+        uint256 batchId
+    ) external {
+        // 1. Prepare Ciphertexts: actualEncryptedScore, encryptedWinnerCount, encryptedWinningStake, encryptedTotalStake
+        bytes32[] memory cts = _evaluationHandles(batches[batchId], markets);
+
+        // 2. Compute State Hash
+        bytes32 stateHash = _hashCiphertexts(cts);
+
+        // 3. Request Decryption
+        uint256 requestId = FHE.requestDecryption(cts, AIPredictMarketFHE.myCallback.selector);
+
+        // 4. Store Context
+        batches[batchId].evaluationRequestId = requestId;
+        batches[batchId].evaluationPending = true;
+        decryptionContexts[requestId] = AIPredictMarketFHE.DecryptionContext({
+            batchId: batchId,
+            stateHash: stateHash,
+            processed: false,
+            handles: cts
+        });
+
+        emit AIPredictMarketFHE.DecryptionRequested(requestId, batchId);
+    }
+
+    function complete(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(uint256 => AIPredictMarketFHE.DecryptionContext) storage decryptionContexts,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof,
+        uint64 challengePeriod
+    ) external {
+        AIPredictMarketFHE.DecryptionContext storage ctx = decryptionContexts[requestId];
+
+        // 5a. Replay Guard
+        if (ctx.processed) revert AIPredictMarketFHE.ReplayDetected();
+
+        // 5b. State Verification
+        // The handles persisted with the request must still be the batch's current evaluation
+        // handles, and the request must be the batch's latest; a re-evaluation makes it stale.
+        uint256 batchId = ctx.batchId;
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        if (
+            batch.evaluationRequestId != requestId ||
+            ctx.stateHash != _hashCiphertexts(ctx.handles) ||
+            ctx.stateHash != _hashCiphertexts(_evaluationHandles(batch, markets))
+        ) {
+            revert AIPredictMarketFHE.StateMismatch();
+        }
+
+        // A late answer must not settle a batch whose stakes may already have been refunded
+        if (batch.cancelled || timedOut(batch)) revert AIPredictMarketFHE.BatchIsCancelled();
+
+        // 5c. Proof Verification (reverts on an invalid KMS signature)
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // 5d. Decode & Finalize
+        (uint32 actualScore, uint32 winnerCount, uint128 winningStake, uint128 totalStaked) = abi.decode(
+            cleartexts,
+            (uint32, uint32, uint128, uint128)
+        );
+
+        ctx.processed = true;
+        batch.evaluated = true;
+        batch.evaluationPending = false;
+        batch.actualScore = actualScore;
+        batch.winnerCount = winnerCount;
+        batch.winningStake = winningStake;
+        batch.totalStaked = totalStaked;
+        batch.challengeDeadline = uint64(block.timestamp) + challengePeriod;
+
+        if (cleartexts.length > 4 * 32) {
+            (, , , , uint64 scoreSum) = abi.decode(cleartexts, (uint32, uint32, uint128, uint128, uint64));
+            batch.consensusRevealed = true;
+            batch.scoreSum = scoreSum;
+            emit AIPredictMarketFHE.CrowdConsensusRevealed(batchId, scoreSum);
+        }
+
+        emit AIPredictMarketFHE.DecryptionCompleted(requestId, batchId, actualScore, totalStaked, winnerCount);
+    }
+
+    // A closed batch that is still unevaluated after its evaluation deadline is treated as
+    // cancelled, whether the provider never requested evaluation or the oracle never answered.
+    function timedOut(AIPredictMarketFHE.Batch storage batch) internal view returns (bool) {
+        return !batch.isOpen && !batch.evaluated && block.timestamp > batch.evaluationDeadline;
+    }
+
+    // Ciphertexts decrypted on evaluation, in the order `complete` decodes them. The score sum of
+    // a score market is only included once enough predictions hide each individual one.
+    function _evaluationHandles(
+        AIPredictMarketFHE.Batch storage batch,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets
+    ) private view returns (bytes32[] memory cts) {
+        bool withConsensus = batch.submissionCount >= MIN_CONSENSUS_PREDICTIONS &&
+            markets[batch.marketId].config.marketType == AIPredictMarketFHE.MarketType.Score;
+        cts = new bytes32[](withConsensus ? 5 : 4);
+        cts[0] = FHE.toBytes32(batch.encryptedActualScore);
+        cts[1] = FHE.toBytes32(batch.encryptedWinnerCount);
+        cts[2] = FHE.toBytes32(batch.encryptedWinningStake);
+        cts[3] = FHE.toBytes32(batch.encryptedTotalStake);
+        if (withConsensus) {
+            cts[4] = FHE.toBytes32(batch.encryptedScoreSum);
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) private view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { MessageHashUtils } from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { AIPredictMarketFHE } from "./AI_Predict_Market_Fhe.sol";
+
+// EIP-712 signatures over AIPredictMarketFHE prediction intents, linked externally (see MarketSettlement)
+library MarketIntents {
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    // Accepts EOA signatures and ERC-1271 contract wallets alike
+    function verify(address signer, bytes32 structHash, bytes calldata signature) external view {
+        bytes32 digest = MessageHashUtils.toTypedDataHash(domainSeparator(), structHash);
+        if (!SignatureChecker.isValidSignatureNow(signer, digest, signature)) {
+            revert AIPredictMarketFHE.InvalidSignature();
+        }
+    }
+
+    // Computed per call rather than cached, so it stays correct behind the proxy and across forks
+    function domainSeparator() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    EIP712_DOMAIN_TYPEHASH,
+                    keccak256("AIPredictMarketFHE"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+}
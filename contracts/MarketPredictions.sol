@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE, BALANCE_UNIT } from "./AI_Predict_Market_Fhe.sol";
+
+// Recording of AIPredictMarketFHE predictions and their stakes, linked externally (see
+// MarketSettlement). Callers check that the batch accepts the prediction before calling in.
+library MarketPredictions {
+    function store(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        mapping(uint256 => address[]) storage batchPredictors,
+        mapping(address => uint256[]) storage predictorBatches,
+        uint256 batchId,
+        address predictor,
+        euint32 encryptedScore,
+        euint64 encryptedAmount,
+        uint256 amount,
+        bool confidential
+    ) external {
+        // The contract needs access to evaluate the prediction; the predictor keeps access to read it back
+        FHE.allowThis(encryptedScore);
+        FHE.allow(encryptedScore, predictor);
+        FHE.allowThis(encryptedAmount);
+        FHE.allow(encryptedAmount, predictor);
+
+        predictions[batchId][predictor] = AIPredictMarketFHE.Prediction({
+            predictor: predictor,
+            encryptedScore: encryptedScore,
+            amount: amount,
+            encryptedAmount: encryptedAmount,
+            confidential: confidential,
+            isWinner: ebool.wrap(0),
+            claimed: false
+        });
+        batchPredictors[batchId].push(predictor);
+        predictorBatches[predictor].push(batchId);
+
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        batch.encryptedTotalStake = FHE.add(batch.encryptedTotalStake, FHE.asEuint128(encryptedAmount));
+        FHE.allowThis(batch.encryptedTotalStake);
+        batch.submissionCount++;
+
+        // Running sum for the crowd consensus; only ever decrypted as a total. Scores are
+        // percentages, so an out-of-range prediction counts as 100 rather than skewing the mean.
+        if (markets[batch.marketId].config.marketType != AIPredictMarketFHE.MarketType.Score) return;
+        euint32 cappedScore = FHE.min(encryptedScore, 100);
+        batch.encryptedScoreSum = FHE.add(batch.encryptedScoreSum, FHE.asEuint64(cappedScore));
+        FHE.allowThis(batch.encryptedScoreSum);
+    }
+
+    // `requested` is in gwei, like the balance it is debited from; the returned stake is in wei.
+    // Even an uncapped market takes at most type(uint64).max wei, so the conversion cannot overflow.
+    function debitStake(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(address => euint64) storage confidentialBalances,
+        uint256 batchId,
+        address predictor,
+        euint64 requested
+    ) external returns (euint64 stake) {
+        AIPredictMarketFHE.MarketConfig storage config = markets[batches[batchId].marketId].config;
+        euint64 balance = confidentialBalances[predictor];
+        uint64 minStake = uint64((config.minStake + BALANCE_UNIT - 1) / BALANCE_UNIT);
+        uint64 maxStake = uint64((config.maxStake == 0 ? type(uint64).max : config.maxStake) / BALANCE_UNIT);
+
+        ebool accepted = FHE.and(FHE.le(requested, balance), FHE.ge(requested, minStake));
+        accepted = FHE.and(accepted, FHE.le(requested, maxStake));
+        euint64 debited = FHE.select(accepted, requested, FHE.asEuint64(0));
+
+        balance = FHE.sub(balance, debited);
+        FHE.allowThis(balance);
+        FHE.allow(balance, predictor);
+        confidentialBalances[predictor] = balance;
+        stake = FHE.mul(debited, uint64(BALANCE_UNIT));
+    }
+}
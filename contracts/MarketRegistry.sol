@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { AIPredictMarketFHE } from "./AI_Predict_Market_Fhe.sol";
+
+// Creation and configuration of AIPredictMarketFHE markets, linked externally (see MarketSettlement)
+library MarketRegistry {
+    // Registers `marketId`, which the caller allocates, for `modelId`; one market per model
+    function create(
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(bytes32 => uint256) storage marketIdByModel,
+        uint256 marketId,
+        string calldata modelId,
+        AIPredictMarketFHE.MarketConfig calldata config
+    ) external {
+        bytes32 modelKey = keccak256(bytes(modelId));
+        if (bytes(modelId).length == 0) revert AIPredictMarketFHE.InvalidMarketConfig();
+        if (marketIdByModel[modelKey] != 0) revert AIPredictMarketFHE.MarketExists();
+        _validate(config);
+
+        AIPredictMarketFHE.Market storage market = markets[marketId];
+        market.modelId = modelId;
+        market.provider = msg.sender;
+        market.active = true;
+        market.config = config;
+        marketIdByModel[modelKey] = marketId;
+
+        emit AIPredictMarketFHE.MarketCreated(marketId, modelId, msg.sender);
+    }
+
+    // Applies to batches opened after the update; an already open batch keeps its tolerance.
+    // The market type and buckets cannot change, since open batches are settled against them.
+    function updateConfig(
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        uint256 marketId,
+        AIPredictMarketFHE.MarketConfig calldata config
+    ) external {
+        _validate(config);
+        AIPredictMarketFHE.MarketConfig storage current = markets[marketId].config;
+        if (config.marketType != current.marketType || config.bucketBounds.length != current.bucketBounds.length) {
+            revert AIPredictMarketFHE.InvalidMarketConfig();
+        }
+        for (uint256 i = 0; i < config.bucketBounds.length; i++) {
+            if (config.bucketBounds[i] != current.bucketBounds[i]) revert AIPredictMarketFHE.InvalidMarketConfig();
+        }
+        markets[marketId].config = config;
+        emit AIPredictMarketFHE.MarketConfigUpdated(marketId);
+    }
+
+    function _validate(AIPredictMarketFHE.MarketConfig calldata config) private pure {
+        if (config.maxStake != 0 && config.maxStake < config.minStake) revert AIPredictMarketFHE.InvalidMarketConfig();
+        if (config.submissionPeriod == 0 || config.evaluationPeriod == 0) {
+            revert AIPredictMarketFHE.InvalidMarketConfig();
+        }
+        // Stakes are tracked as euint64 ciphertexts
+        if (config.minStake > type(uint64).max || config.maxStake > type(uint64).max) {
+            revert AIPredictMarketFHE.InvalidMarketConfig();
+        }
+
+        if (config.marketType == AIPredictMarketFHE.MarketType.Score) {
+            if (config.bucketBounds.length != 0) revert AIPredictMarketFHE.InvalidMarketConfig();
+            return;
+        }
+        // Bucket indexes are submitted as euint8; scores are percentages
+        uint256 count = config.bucketBounds.length;
+        if (count == 0 || count > type(uint8).max - 1) revert AIPredictMarketFHE.InvalidMarketConfig();
+        for (uint256 i = 0; i < count; i++) {
+            if (config.bucketBounds[i] == 0 || config.bucketBounds[i] > 100) {
+                revert AIPredictMarketFHE.InvalidMarketConfig();
+            }
+            if (i > 0 && config.bucketBounds[i] <= config.bucketBounds[i - 1]) {
+                revert AIPredictMarketFHE.InvalidMarketConfig();
+            }
+        }
+    }
+}
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE } from "./AI_Predict_Market_Fhe.sol";
+
+// Encrypted predictor track records of AIPredictMarketFHE, linked externally (see MarketSettlement)
+library MarketReputation {
+    // Folds the outcomes of predictions [start, start + count) of a batch into their predictors'
+    // reputations, in submission order. The caller checks that the batch's result is final.
+    function record(
+        mapping(address => AIPredictMarketFHE.Reputation) storage reputations,
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => address[]) storage batchPredictors,
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        uint256 batchId,
+        uint256 start,
+        uint256 count
+    ) external {
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        address[] storage predictors = batchPredictors[batchId];
+        uint256 end = start + count;
+        if (start != batch.reputationProgress || count == 0 || end > predictors.length) {
+            revert AIPredictMarketFHE.InvalidSettlementRange();
+        }
+
+        for (uint256 i = start; i < end; i++) {
+            _update(reputations, predictions[batchId][predictors[i]]);
+        }
+        batch.reputationProgress = end;
+
+        emit AIPredictMarketFHE.ReputationsRecorded(batchId, end, predictors.length);
+    }
+
+    // Sends the caller's encrypted accuracy for decryption; `revealCallback` publishes it
+    function requestReveal(
+        mapping(address => AIPredictMarketFHE.Reputation) storage reputations,
+        mapping(uint256 => AIPredictMarketFHE.RevealContext) storage revealContexts
+    ) external {
+        AIPredictMarketFHE.Reputation storage reputation = reputations[msg.sender];
+        if (reputation.settledPredictions == 0) revert AIPredictMarketFHE.NoReputation();
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(reputation.accuracy);
+        uint256 requestId = FHE.requestDecryption(cts, AIPredictMarketFHE.reputationCallback.selector);
+
+        revealContexts[requestId] = AIPredictMarketFHE.RevealContext({
+            account: msg.sender,
+            settledPredictions: reputation.settledPredictions,
+            processed: false
+        });
+
+        emit AIPredictMarketFHE.ReputationRevealRequested(requestId, msg.sender);
+    }
+
+    function revealCallback(
+        mapping(address => AIPredictMarketFHE.Reputation) storage reputations,
+        mapping(uint256 => AIPredictMarketFHE.RevealContext) storage revealContexts,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) external {
+        AIPredictMarketFHE.RevealContext storage reveal = revealContexts[requestId];
+        if (reveal.processed) revert AIPredictMarketFHE.ReplayDetected();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint32 accuracy = abi.decode(cleartexts, (uint32));
+        reveal.processed = true;
+
+        AIPredictMarketFHE.Reputation storage reputation = reputations[reveal.account];
+        reputation.revealed = true;
+        reputation.revealedAccuracy = accuracy;
+        reputation.revealedPredictions = reveal.settledPredictions;
+
+        emit AIPredictMarketFHE.ReputationRevealed(reveal.account, accuracy, reveal.settledPredictions);
+    }
+
+    // Folds a prediction's encrypted win flag into its predictor's track record. Only the predictor
+    // can decrypt the result.
+    function _update(
+        mapping(address => AIPredictMarketFHE.Reputation) storage reputations,
+        AIPredictMarketFHE.Prediction storage prediction
+    ) private {
+        address predictor = prediction.predictor;
+        AIPredictMarketFHE.Reputation storage reputation = reputations[predictor];
+        reputation.settledPredictions += 1;
+        euint32 wins = FHE.add(reputation.wins, FHE.asEuint32(prediction.isWinner));
+        euint32 accuracy = FHE.div(FHE.mul(wins, 100), reputation.settledPredictions);
+
+        FHE.allowThis(wins);
+        FHE.allow(wins, predictor);
+        FHE.allowThis(accuracy);
+        FHE.allow(accuracy, predictor);
+        reputation.wins = wins;
+        reputation.accuracy = accuracy;
+    }
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint128, ebool, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIPredictMarketFHE } from "./AI_Predict_Market_Fhe.sol";
+
+// Homomorphic evaluation and settlement of AIPredictMarketFHE batches. Like the other Market*
+// libraries it is linked externally to keep the market under the contract size limit, and runs
+// in the market's storage through DELEGATECALL: handles it creates are allowed to the market.
+library MarketSettlement {
+    // Compares each (ground-truth label, model output) pair with FHE.eq and adds the encrypted
+    // number of matches to the test set's running count. Neither side is ever decrypted.
+    function countCorrectOutputs(
+        AIPredictMarketFHE.TestSetEvaluation storage evaluation,
+        externalEuint8[] calldata labels,
+        externalEuint8[] calldata outputs,
+        bytes calldata inputProof
+    ) external {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        euint32 correct = evaluation.correctCount;
+        for (uint256 i = 0; i < labels.length; i++) {
+            euint8 label = FHE.fromExternal(labels[i], inputProof);
+            euint8 output = FHE.fromExternal(outputs[i], inputProof);
+            correct = FHE.add(correct, FHE.select(FHE.eq(label, output), one, zero));
+        }
+
+        FHE.allowThis(correct);
+        evaluation.correctCount = correct;
+        evaluation.sampleCount += uint32(labels.length);
+    }
+
+    // Compares predictions [settlementProgress, end) with the actual score without decrypting
+    // either side. A prediction wins when |prediction - actual| <= batch tolerance, or in bucket
+    // markets when it names the bucket the actual score falls in. The per-predictor win flag is
+    // stored encrypted (readable by the predictor) and the flags are summed into an encrypted winner count.
+    // The winners' stakes are summed the same way so rewards can be split pro-rata.
+    function settlePredictions(
+        mapping(uint256 => AIPredictMarketFHE.Batch) storage batches,
+        mapping(uint256 => AIPredictMarketFHE.Market) storage markets,
+        mapping(uint256 => AIPredictMarketFHE.TestSetEvaluation) storage testSetEvaluations,
+        mapping(uint256 => address[]) storage batchPredictors,
+        mapping(uint256 => mapping(address => AIPredictMarketFHE.Prediction)) storage predictions,
+        uint256 batchId,
+        uint256 end
+    ) external {
+        AIPredictMarketFHE.Batch storage batch = batches[batchId];
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        euint128 noStake = FHE.asEuint128(0);
+
+        uint32[] storage bounds = markets[batch.marketId].config.bucketBounds;
+        bool isBucketMarket = bounds.length != 0;
+        if (!FHE.isInitialized(batch.encryptedActualScore)) {
+            euint32 actual = _actualScore(testSetEvaluations[batchId]);
+            euint32 bucket = zero;
+            for (uint256 i = 0; i < bounds.length; i++) {
+                bucket = FHE.add(bucket, FHE.select(FHE.ge(actual, bounds[i]), one, zero));
+            }
+            FHE.allowThis(actual);
+            FHE.allowThis(bucket);
+            batch.encryptedActualScore = actual;
+            batch.encryptedActualBucket = bucket;
+            batch.encryptedWinnerCount = zero;
+            batch.encryptedWinningStake = noStake;
+        }
+        euint32 actualScore = batch.encryptedActualScore;
+        euint32 actualBucket = batch.encryptedActualBucket;
+        euint32 winnerCount = batch.encryptedWinnerCount;
+        euint128 winningStake = batch.encryptedWinningStake;
+
+        address[] storage predictors = batchPredictors[batchId];
+        for (uint256 i = batch.settlementProgress; i < end; i++) {
+            AIPredictMarketFHE.Prediction storage prediction = predictions[batchId][predictors[i]];
+            euint32 predicted = prediction.encryptedScore;
+
+            ebool isWinner;
+            if (isBucketMarket) {
+                isWinner = FHE.eq(predicted, actualBucket);
+            } else {
+                // Absolute difference: unsigned subtraction in whichever direction does not underflow
+                ebool overshoot = FHE.ge(predicted, actualScore);
+                euint32 distance = FHE.select(
+                    overshoot,
+                    FHE.sub(predicted, actualScore),
+                    FHE.sub(actualScore, predicted)
+                );
+                isWinner = FHE.le(distance, batch.tolerance);
+            }
+            // A zero stake (the confidential fallback for an unaffordable one) risks nothing, so it cannot win
+            isWinner = FHE.and(isWinner, FHE.gt(prediction.encryptedAmount, 0));
+
+            FHE.allowThis(isWinner);
+            FHE.allow(isWinner, prediction.predictor);
+            prediction.isWinner = isWinner;
+
+            winnerCount = FHE.add(winnerCount, FHE.select(isWinner, one, zero));
+            winningStake = FHE.add(
+                winningStake,
+                FHE.select(isWinner, FHE.asEuint128(prediction.encryptedAmount), noStake)
+            );
+        }
+
+        FHE.allowThis(winnerCount);
+        FHE.allowThis(winningStake);
+        batch.encryptedWinnerCount = winnerCount;
+        batch.encryptedWinningStake = winningStake;
+        batch.settlementProgress = end;
+
+        emit AIPredictMarketFHE.BatchSettlementProgress(batchId, end, predictors.length);
+    }
+
+    // The actual score is the model's accuracy on the encrypted test set, as an integer
+    // percentage (0-100) so it is on the same scale as the predictions.
+    function _actualScore(AIPredictMarketFHE.TestSetEvaluation storage evaluation) private returns (euint32) {
+        if (evaluation.sampleCount == 0) revert AIPredictMarketFHE.TestSetMissing();
+        return FHE.div(FHE.mul(evaluation.correctCount, 100), evaluation.sampleCount);
+    }
+}
@@ -0,0 +1,115 @@
+// deploy/deployMarket.ts
+// Deploys the prediction market: the libraries it links against, its implementation, and the
+// AIPredictMarketProxy that holds its state, initialized in the same transaction. The first
+// signer of the network becomes the owner and the proxy admin owner.
+//
+//   npx hardhat run deploy/deployMarket.ts --network <network>
+//
+// DECRYPTION_ORACLE and DISPUTE_BOND (in ether) override the defaults below. The proxy address
+// is written to frontend/web/src/config.json as `marketAddress`, so run this after deploy.ts,
+// which rewrites that file.
+import fs from "fs";
+import path from "path";
+import { ethers, fhevm, network } from "hardhat";
+
+// SepoliaZamaOracleAddress from @zama-fhe/oracle-solidity, which ZamaConfig also points at
+const SEPOLIA_DECRYPTION_ORACLE = "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812";
+const DEFAULT_DISPUTE_BOND = "0.1";
+
+// External libraries AIPredictMarketFHE links against to stay under the contract size limit
+const MARKET_LIBRARIES = [
+  "MarketBalances",
+  "MarketClaims",
+  "MarketDisputes",
+  "MarketEvaluation",
+  "MarketIntents",
+  "MarketPredictions",
+  "MarketRegistry",
+  "MarketReputation",
+  "MarketSettlement",
+];
+
+const FRONTEND_CONFIG = path.join(
+  __dirname,
+  "..",
+  "frontend",
+  "web",
+  "src",
+  "config.json",
+);
+
+// On a hardhat node, which runs the FHEVM mock, callbacks come from the mock relayer's signer.
+// The plugin's CLI API only serves localhost and sepolia, so the in-process network is not supported.
+async function decryptionOracle(): Promise<string> {
+  if (process.env.DECRYPTION_ORACLE) return process.env.DECRYPTION_ORACLE;
+  await fhevm.initializeCLIApi();
+  if (fhevm.isMock) {
+    return (await fhevm.getRelayerMetadata()).relayerSignerAddress;
+  }
+  return SEPOLIA_DECRYPTION_ORACLE;
+}
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  if (!deployer) throw new Error(`No accounts configured for ${network.name}`);
+  const oracle = await decryptionOracle();
+  const bond = ethers.parseEther(
+    process.env.DISPUTE_BOND ?? DEFAULT_DISPUTE_BOND,
+  );
+  console.log(
+    `Deploying the prediction market to ${network.name} from ${deployer.address}`,
+  );
+
+  const libraries: Record<string, string> = {};
+  for (const name of MARKET_LIBRARIES) {
+    const library = await (
+      await ethers.getContractFactory(name, deployer)
+    ).deploy();
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+    console.log(`${name} deployed at: ${libraries[name]}`);
+  }
+
+  const implementationFactory = await ethers.getContractFactory(
+    "AIPredictMarketFHE",
+    { signer: deployer, libraries },
+  );
+  const implementation = await implementationFactory.deploy();
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log(
+    "AIPredictMarketFHE implementation deployed at:",
+    implementationAddress,
+  );
+
+  const proxy = await (
+    await ethers.getContractFactory("AIPredictMarketProxy", deployer)
+  ).deploy(
+    implementationAddress,
+    deployer.address,
+    implementationFactory.interface.encodeFunctionData("initialize", [
+      deployer.address,
+      oracle,
+      bond,
+    ]),
+  );
+  const receipt = await proxy.deploymentTransaction()!.wait();
+  const marketAddress = await proxy.getAddress();
+  console.log("AIPredictMarketProxy deployed at:", marketAddress);
+  console.log(
+    `Initialized with decryption oracle ${oracle} and a ${ethers.formatEther(bond)} ETH dispute bond`,
+  );
+
+  const config = fs.existsSync(FRONTEND_CONFIG)
+    ? JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf-8"))
+    : {};
+  config.marketAddress = marketAddress;
+  config.marketDeployBlock = receipt!.blockNumber;
+  fs.writeFileSync(FRONTEND_CONFIG, JSON.stringify(config, null, 2) + "\n");
+  console.log("Wrote marketAddress to frontend/web/src/config.json");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
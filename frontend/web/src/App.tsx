@@ -3,37 +3,43 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, config } from "./contract";
+import { userDecrypt } from "./fhe";
+import { getMarketIdForModel, getPredictionCounts } from "./market";
+import MyPredictionPanel from "./components/MyPredictionPanel";
+import BatchDashboard from "./components/BatchDashboard";
+import PredictionDialog from "./components/PredictionDialog";
+import AdminConsole from "./components/AdminConsole";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { NavLink, Route, Routes } from 'react-router-dom';
 
 interface ModelRecord {
   id: string;
   name: string;
-  encryptedScore: string;
+  score: number | null;
+  marketId?: bigint; // Read from the market contract's marketIdByModel; unset without a market
   timestamp: number;
   owner: string;
   category: string;
-  predictionCount: number;
+  predictionCount: number; // Over all of the model's market batches
   lastUpdated: number;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+// A model's score is its owner's own claim and is published in clear: no contract holds it, so
+// there is nothing an FHE ciphertext could be decrypted against. The market instead evaluates
+// models on encrypted test sets. Older records carry a base64 "FHE-" string, which was only ever
+// an encoding, or an input handle that was never submitted on chain and cannot be read.
+const readableScore = (stored: unknown): number | null => {
+  const value = String(stored);
+  if (value.startsWith('FHE-')) return parseFloat(atob(value.substring(4)));
+  if (ethers.isHexString(value, 32)) return null;
+  const score = Number(value);
+  return Number.isNaN(score) ? null : score;
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [models, setModels] = useState<ModelRecord[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -42,40 +48,25 @@ const App: React.FC = () => {
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
   const [newModelData, setNewModelData] = useState({ name: "", category: "NLP", score: 0 });
   const [selectedModel, setSelectedModel] = useState<ModelRecord | null>(null);
-  const [decryptedScore, setDecryptedScore] = useState<number | null>(null);
+  const [predictingModel, setPredictingModel] = useState<ModelRecord | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
 
   // Stats calculations
+  // Score stats only cover models with a readable score
   const totalModels = models.length;
-  const avgScore = totalModels > 0 
-    ? models.reduce((sum, model) => sum + FHEDecryptNumber(model.encryptedScore), 0) / totalModels 
-    : 0;
+  const readableScores = models
+    .map(model => model.score)
+    .filter((score): score is number => score !== null);
+  const avgScore = readableScores.length > 0 
+    ? readableScores.reduce((sum, score) => sum + score, 0) / readableScores.length 
+    : null;
   const categories = [...new Set(models.map(m => m.category))];
-  const topModel = [...models].sort((a, b) => 
-    FHEDecryptNumber(b.encryptedScore) - FHEDecryptNumber(a.encryptedScore)
-  )[0];
+  const topScore = readableScores.length > 0 ? Math.max(...readableScores) : null;
 
   useEffect(() => {
     loadModels().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
   }, []);
 
   const loadModels = async () => {
@@ -112,11 +103,11 @@ const App: React.FC = () => {
               modelList.push({ 
                 id: key, 
                 name: modelData.name,
-                encryptedScore: modelData.score, 
+                score: readableScore(modelData.score), 
                 timestamp: modelData.timestamp, 
                 owner: modelData.owner, 
                 category: modelData.category,
-                predictionCount: modelData.predictionCount || 0,
+                predictionCount: 0,
                 lastUpdated: modelData.lastUpdated || modelData.timestamp
               });
             } catch (e) { console.error(`Error parsing model data for ${key}:`, e); }
@@ -124,12 +115,21 @@ const App: React.FC = () => {
         } catch (e) { console.error(`Error loading model ${key}:`, e); }
       }
 
-      // Sort by score (descending)
-      modelList.sort((a, b) => {
-        const scoreA = FHEDecryptNumber(a.encryptedScore);
-        const scoreB = FHEDecryptNumber(b.encryptedScore);
-        return scoreB - scoreA;
-      });
+      // Markets and their prediction counts live on the market contract, keyed by the model's id
+      if (config.marketAddress) {
+        try {
+          const counts = await getPredictionCounts();
+          for (const model of modelList) {
+            const marketId = await getMarketIdForModel(model.id);
+            if (marketId === 0n) continue;
+            model.marketId = marketId;
+            model.predictionCount = Number(counts.get(marketId) ?? 0n);
+          }
+        } catch (e) { console.error("Error loading markets:", e); }
+      }
+
+      // Sort by score (descending); unreadable scores go last
+      modelList.sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
 
       setModels(modelList);
     } catch (e) { 
@@ -141,7 +141,7 @@ const App: React.FC = () => {
   };
 
   const submitModel = async () => {
-    if (!isConnected) { 
+    if (!isConnected || !address) { 
       alert("Please connect wallet first"); 
       return; 
     }
@@ -150,12 +150,10 @@ const App: React.FC = () => {
     setTransactionStatus({ 
       visible: true, 
       status: "pending", 
-      message: "Encrypting model score with Zama FHE..." 
+      message: "Submitting model..." 
     });
 
     try {
-      // Encrypt the score
-      const encryptedScore = FHEEncryptNumber(newModelData.score);
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
 
@@ -165,11 +163,10 @@ const App: React.FC = () => {
       // Prepare model data
       const modelData = { 
         name: newModelData.name,
-        score: encryptedScore, 
+        score: newModelData.score, 
         timestamp: Math.floor(Date.now() / 1000), 
         owner: address, 
         category: newModelData.category,
-        predictionCount: 0,
         lastUpdated: Math.floor(Date.now() / 1000)
       };
 
@@ -192,7 +189,7 @@ const App: React.FC = () => {
       setTransactionStatus({ 
         visible: true, 
         status: "success", 
-        message: "Model submitted with FHE encryption!" 
+        message: "Model submitted!" 
       });
 
       // Refresh list
@@ -224,6 +221,9 @@ const App: React.FC = () => {
     }
   };
 
+  // Decrypts a ciphertext handle held by the prediction market. The user signs an EIP-712
+  // request for a fresh keypair and the relayer re-encrypts the value under it; this only
+  // succeeds for handles the contract's ACL has granted to the connected account.
   const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
     if (!isConnected) { 
       alert("Please connect wallet first"); 
@@ -232,17 +232,10 @@ const App: React.FC = () => {
     
     setIsDecrypting(true);
     try {
-      // Signature request message
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      
-      // Request signature
-      await signMessageAsync({ message });
-      
-      // Simulate decryption delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Return decrypted value
-      return FHEDecryptNumber(encryptedData);
+      const provider = new ethers.BrowserProvider((window as any).ethereum);
+      const signer = await provider.getSigner();
+      const clear = await userDecrypt(encryptedData, config.marketAddress, signer);
+      return Number(clear);
     } catch (e) { 
       console.error("Decryption failed:", e); 
       return null; 
@@ -251,65 +244,17 @@ const App: React.FC = () => {
     }
   };
 
-  const submitPrediction = async (modelId: string, predictionScore: number) => {
-    if (!isConnected) { 
-      alert("Please connect wallet first"); 
-      return; 
-    }
-    
+  const handlePredictionSubmitted = (batchId: bigint) => {
+    setPredictingModel(null);
     setTransactionStatus({ 
       visible: true, 
-      status: "pending", 
-      message: "Processing prediction with FHE..." 
+      status: "success", 
+      message: `Encrypted prediction submitted to batch #${batchId}!` 
     });
-
-    try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      // Get current model data
-      const modelBytes = await contract.getData(`model_${modelId}`);
-      if (modelBytes.length === 0) throw new Error("Model not found");
-      
-      const modelData = JSON.parse(ethers.toUtf8String(modelBytes));
-      
-      // Get contract with signer
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      // Update model with new prediction count
-      const updatedModel = { 
-        ...modelData, 
-        predictionCount: (modelData.predictionCount || 0) + 1,
-        lastUpdated: Math.floor(Date.now() / 1000)
-      };
-      
-      await contractWithSigner.setData(`model_${modelId}`, ethers.toUtf8Bytes(JSON.stringify(updatedModel)));
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: "Prediction submitted successfully!" 
-      });
-      
-      await loadModels();
-      
-      setTimeout(() => 
-        setTransactionStatus({ visible: false, status: "pending", message: "" }), 
-        2000
-      );
-    } catch (e: any) {
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "Prediction failed: " + (e.message || "Unknown error") 
-      });
-      
-      setTimeout(() => 
-        setTransactionStatus({ visible: false, status: "pending", message: "" }), 
-        3000
-      );
-    }
+    setTimeout(() => 
+      setTransactionStatus({ visible: false, status: "pending", message: "" }), 
+      2000
+    );
   };
 
   const isOwner = (modelAddress: string) => 
@@ -338,6 +283,11 @@ const App: React.FC = () => {
           </div>
           <h1>AI<span>Prediction</span>Market</h1>
         </div>
+        <nav className="app-nav">
+          <NavLink to="/" end>Models</NavLink>
+          <NavLink to="/batches">Batches</NavLink>
+          <NavLink to="/admin">Admin</NavLink>
+        </nav>
         <div className="header-actions">
           <button 
             onClick={() => setShowCreateModal(true)} 
@@ -352,126 +302,139 @@ const App: React.FC = () => {
       </header>
 
       <div className="main-content">
-        {/* Project Introduction */}
-        <div className="intro-section tech-card">
-          <h2>FHE-Powered AI Prediction Market</h2>
-          <p>
-            A decentralized prediction market for AI model performance. 
-            Models are evaluated on encrypted test sets using Zama FHE technology 
-            to ensure fairness and privacy.
-          </p>
-          <div className="fhe-badge">
-            <span>Fully Homomorphic Encryption</span>
-          </div>
-        </div>
+        <Routes>
+          <Route path="/batches" element={<BatchDashboard />} />
+          <Route path="/admin" element={<AdminConsole account={address} models={models} onMarketCreated={loadModels} />} />
+          <Route path="*" element={<>
+            {/* Project Introduction */}
+            <div className="intro-section tech-card">
+              <h2>FHE-Powered AI Prediction Market</h2>
+              <p>
+                A decentralized prediction market for AI model performance. 
+                Models are evaluated on encrypted test sets using Zama FHE technology 
+                to ensure fairness and privacy.
+              </p>
+              <div className="fhe-badge">
+                <span>Fully Homomorphic Encryption</span>
+              </div>
+            </div>
 
-        {/* Data Statistics */}
-        <div className="stats-section">
-          <div className="stat-card tech-card">
-            <h3>Total Models</h3>
-            <div className="stat-value">{totalModels}</div>
-          </div>
-          <div className="stat-card tech-card">
-            <h3>Average Score</h3>
-            <div className="stat-value">{avgScore.toFixed(2)}</div>
-          </div>
-          <div className="stat-card tech-card">
-            <h3>Top Score</h3>
-            <div className="stat-value">
-              {topModel ? FHEDecryptNumber(topModel.encryptedScore).toFixed(2) : "N/A"}
+            {/* Data Statistics */}
+            <div className="stats-section">
+              <div className="stat-card tech-card">
+                <h3>Total Models</h3>
+                <div className="stat-value">{totalModels}</div>
+              </div>
+              <div className="stat-card tech-card">
+                <h3>Average Score</h3>
+                <div className="stat-value">{avgScore !== null ? avgScore.toFixed(2) : "N/A"}</div>
+              </div>
+              <div className="stat-card tech-card">
+                <h3>Top Score</h3>
+                <div className="stat-value">
+                  {topScore !== null ? topScore.toFixed(2) : "N/A"}
+                </div>
+              </div>
+              <div className="stat-card tech-card">
+                <h3>Categories</h3>
+                <div className="stat-value">{categories.length}</div>
+              </div>
             </div>
-          </div>
-          <div className="stat-card tech-card">
-            <h3>Categories</h3>
-            <div className="stat-value">{categories.length}</div>
-          </div>
-        </div>
 
-        {/* Search & Filter */}
-        <div className="search-filter-section tech-card">
-          <div className="search-box">
-            <input
-              type="text"
-              placeholder="Search models..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="tech-input"
+            {/* My Prediction */}
+            <MyPredictionPanel 
+              account={address} 
+              isDecrypting={isDecrypting} 
+              decryptWithSignature={decryptWithSignature}
             />
-            <div className="search-icon"></div>
-          </div>
-          <select
-            value={filterCategory}
-            onChange={(e) => setFilterCategory(e.target.value)}
-            className="tech-select"
-          >
-            <option value="all">All Categories</option>
-            {categories.map((cat) => (
-              <option key={cat} value={cat}>{cat}</option>
-            ))}
-          </select>
-          <button 
-            onClick={loadModels} 
-            className="refresh-btn tech-button" 
-            disabled={isRefreshing}
-          >
-            {isRefreshing ? "Refreshing..." : "Refresh"}
-          </button>
-        </div>
 
-        {/* Model Leaderboard */}
-        <div className="leaderboard-section">
-          <h2>AI Model Leaderboard</h2>
-          <div className="leaderboard-table tech-card">
-            <div className="table-header">
-              <div className="header-cell">Rank</div>
-              <div className="header-cell">Model Name</div>
-              <div className="header-cell">Category</div>
-              <div className="header-cell">Encrypted Score</div>
-              <div className="header-cell">Predictions</div>
-              <div className="header-cell">Actions</div>
+            {/* Search & Filter */}
+            <div className="search-filter-section tech-card">
+              <div className="search-box">
+                <input
+                  type="text"
+                  placeholder="Search models..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="tech-input"
+                />
+                <div className="search-icon"></div>
+              </div>
+              <select
+                value={filterCategory}
+                onChange={(e) => setFilterCategory(e.target.value)}
+                className="tech-select"
+              >
+                <option value="all">All Categories</option>
+                {categories.map((cat) => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+              <button 
+                onClick={loadModels} 
+                className="refresh-btn tech-button" 
+                disabled={isRefreshing}
+              >
+                {isRefreshing ? "Refreshing..." : "Refresh"}
+              </button>
             </div>
+
+            {/* Model Leaderboard */}
+            <div className="leaderboard-section">
+              <h2>AI Model Leaderboard</h2>
+              <div className="leaderboard-table tech-card">
+                <div className="table-header">
+                  <div className="header-cell">Rank</div>
+                  <div className="header-cell">Model Name</div>
+                  <div className="header-cell">Category</div>
+                  <div className="header-cell">Score</div>
+                  <div className="header-cell">Predictions</div>
+                  <div className="header-cell">Actions</div>
+                </div>
             
-            {filteredModels.length === 0 ? (
-              <div className="no-models">
-                <div className="no-models-icon"></div>
-                <p>No models found matching your criteria</p>
-                <button 
-                  className="tech-button primary" 
-                  onClick={() => setShowCreateModal(true)}
-                >
-                  Add First Model
-                </button>
-              </div>
-            ) : (
-              filteredModels.map((model, index) => (
-                <div 
-                  className="model-row" 
-                  key={model.id} 
-                  onClick={() => setSelectedModel(model)}
-                >
-                  <div className="table-cell rank">#{index + 1}</div>
-                  <div className="table-cell name">{model.name}</div>
-                  <div className="table-cell category">{model.category}</div>
-                  <div className="table-cell score">
-                    {model.encryptedScore.substring(0, 12)}...
-                  </div>
-                  <div className="table-cell predictions">{model.predictionCount}</div>
-                  <div className="table-cell actions">
+                {filteredModels.length === 0 ? (
+                  <div className="no-models">
+                    <div className="no-models-icon"></div>
+                    <p>No models found matching your criteria</p>
                     <button 
-                      className="action-btn tech-button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        submitPrediction(model.id, 0);
-                      }}
+                      className="tech-button primary" 
+                      onClick={() => setShowCreateModal(true)}
                     >
-                      Predict
+                      Add First Model
                     </button>
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
+                ) : (
+                  filteredModels.map((model, index) => (
+                    <div 
+                      className="model-row" 
+                      key={model.id} 
+                      onClick={() => setSelectedModel(model)}
+                    >
+                      <div className="table-cell rank">#{index + 1}</div>
+                      <div className="table-cell name">{model.name}</div>
+                      <div className="table-cell category">{model.category}</div>
+                      <div className="table-cell score">
+                        {model.score !== null ? model.score.toFixed(2) : "N/A"}
+                      </div>
+                      <div className="table-cell predictions">{model.predictionCount}</div>
+                      <div className="table-cell actions">
+                        <button 
+                          className="action-btn tech-button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPredictingModel(model);
+                          }}
+                        >
+                          Predict
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </>} />
+        </Routes>
       </div>
 
       {/* Create Model Modal */}
@@ -489,14 +452,17 @@ const App: React.FC = () => {
       {selectedModel && (
         <ModelDetailModal 
           model={selectedModel} 
-          onClose={() => { 
-            setSelectedModel(null); 
-            setDecryptedScore(null); 
-          }} 
-          decryptedScore={decryptedScore} 
-          setDecryptedScore={setDecryptedScore} 
-          isDecrypting={isDecrypting} 
-          decryptWithSignature={decryptWithSignature}
+          onClose={() => setSelectedModel(null)} 
+        />
+      )}
+
+      {/* Prediction Dialog */}
+      {predictingModel && (
+        <PredictionDialog 
+          model={predictingModel} 
+          account={address} 
+          onClose={() => setPredictingModel(null)} 
+          onSubmitted={handlePredictionSubmitted}
         />
       )}
 
@@ -587,8 +553,8 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           <div className="fhe-notice-banner">
             <div className="key-icon"></div> 
             <div>
-              <strong>FHE Encryption Notice</strong>
-              <p>Model scores will be encrypted with Zama FHE before submission</p>
+              <strong>Public Score Notice</strong>
+              <p>The score is published as entered; predictions on the model are encrypted with Zama FHE</p>
             </div>
           </div>
           
@@ -631,29 +597,9 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               className="tech-input"
               min="0"
               max="100"
-              step="0.1"
+              step="1"
             />
           </div>
-          
-          <div className="encryption-preview">
-            <h4>Encryption Preview</h4>
-            <div className="preview-container">
-              <div className="plain-data">
-                <span>Plain Score:</span>
-                <div>{modelData.score || 'No score entered'}</div>
-              </div>
-              <div className="encryption-arrow">→</div>
-              <div className="encrypted-data">
-                <span>Encrypted Data:</span>
-                <div>
-                  {modelData.score ? 
-                    FHEEncryptNumber(modelData.score).substring(0, 50) + '...' : 
-                    'No score entered'
-                  }
-                </div>
-              </div>
-            </div>
-          </div>
         </div>
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn tech-button">
@@ -664,7 +610,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             disabled={creating} 
             className="submit-btn tech-button primary"
           >
-            {creating ? "Encrypting with FHE..." : "Submit Model"}
+            {creating ? "Submitting..." : "Submit Model"}
           </button>
         </div>
       </div>
@@ -675,29 +621,9 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
 interface ModelDetailModalProps {
   model: ModelRecord;
   onClose: () => void;
-  decryptedScore: number | null;
-  setDecryptedScore: (value: number | null) => void;
-  isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
 }
 
-const ModelDetailModal: React.FC<ModelDetailModalProps> = ({ 
-  model, 
-  onClose, 
-  decryptedScore, 
-  setDecryptedScore, 
-  isDecrypting, 
-  decryptWithSignature 
-}) => {
-  const handleDecrypt = async () => {
-    if (decryptedScore !== null) { 
-      setDecryptedScore(null); 
-      return; 
-    }
-    const decrypted = await decryptWithSignature(model.encryptedScore);
-    if (decrypted !== null) setDecryptedScore(decrypted);
-  };
-
+const ModelDetailModal: React.FC<ModelDetailModalProps> = ({ model, onClose }) => {
   return (
     <div className="modal-overlay">
       <div className="model-detail-modal tech-card">
@@ -721,6 +647,10 @@ const ModelDetailModal: React.FC<ModelDetailModalProps> = ({
               <span>Category:</span>
               <strong>{model.category}</strong>
             </div>
+            <div className="info-item">
+              <span>Score:</span>
+              <strong>{model.score !== null ? model.score.toFixed(2) : "N/A"}</strong>
+            </div>
             <div className="info-item">
               <span>Created:</span>
               <strong>
@@ -738,45 +668,6 @@ const ModelDetailModal: React.FC<ModelDetailModalProps> = ({
               <strong>{model.predictionCount}</strong>
             </div>
           </div>
-          
-          <div className="encrypted-data-section">
-            <h3>Encrypted Performance Score</h3>
-            <div className="encrypted-data">
-              {model.encryptedScore.substring(0, 100)}...
-            </div>
-            <div className="fhe-tag">
-              <div className="fhe-icon"></div>
-              <span>FHE Encrypted</span>
-            </div>
-            <button 
-              className="decrypt-btn tech-button" 
-              onClick={handleDecrypt} 
-              disabled={isDecrypting}
-            >
-              {isDecrypting ? (
-                <span className="decrypt-spinner"></span>
-              ) : decryptedScore !== null ? (
-                "Hide Decrypted Score"
-              ) : (
-                "Decrypt with Wallet Signature"
-              )}
-            </button>
-          </div>
-          
-          {decryptedScore !== null && (
-            <div className="decrypted-data-section">
-              <h3>Decrypted Score</h3>
-              <div className="decrypted-value">
-                {decryptedScore.toFixed(2)}
-              </div>
-              <div className="decryption-notice">
-                <div className="warning-icon"></div>
-                <span>
-                  Decrypted score is only visible after wallet signature verification
-                </span>
-              </div>
-            </div>
-          )}
         </div>
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn tech-button">
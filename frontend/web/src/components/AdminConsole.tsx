@@ -0,0 +1,454 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config } from '../contract';
+import {
+  addProvider,
+  adminEventFilters,
+  closeBatch,
+  createMarket,
+  decodeMarketError,
+  getMarketReadOnly,
+  MarketType,
+  openBatch,
+  removeProvider,
+  requestBatchEvaluation,
+  setCooldown,
+  setPaused
+} from '../market';
+
+const HISTORY_LIMIT = 50;
+
+// Each section is shown to the accounts holding the role its functions require
+interface Access {
+  isAdmin: boolean; // ADMIN_ROLE: providers and cooldown
+  isPauser: boolean; // PAUSER_ROLE: pause
+  isProvider: boolean; // BATCH_OPERATOR_ROLE: markets and batches
+}
+
+const NO_ACCESS: Access = { isAdmin: false, isPauser: false, isProvider: false };
+
+const EMPTY_MARKET_FORM = {
+  modelId: "",
+  category: "NLP",
+  marketType: MarketType.Score,
+  bucketBounds: "",
+  tolerance: "5",
+  minStake: "0.01",
+  maxStake: "0",
+  submissionPeriod: "3600",
+  evaluationPeriod: "86400"
+};
+
+// Bucket bounds are entered as comma-separated scores, e.g. "50, 70, 90"
+const parseBounds = (text: string): number[] =>
+  text.split(",").map((bound) => bound.trim()).filter((bound) => bound !== "").map(Number);
+
+interface HistoryEntry {
+  key: string;
+  blockNumber: number;
+  transactionHash: string;
+  description: string;
+}
+
+interface AdminConsoleProps {
+  account?: string;
+  models: { id: string; name: string; marketId?: bigint }[];
+  onMarketCreated: () => void;
+}
+
+const short = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+// One line per admin event; roles are shown by name where they are known
+const describeEvent = (name: string, args: Record<string, any>, roleNames: Map<string, string>): string => {
+  switch (name) {
+    case "RoleGranted":
+      return `${roleNames.get(args.role) ?? args.role} granted to ${short(args.account)} by ${short(args.sender)}`;
+    case "RoleRevoked":
+      return `${roleNames.get(args.role) ?? args.role} revoked from ${short(args.account)} by ${short(args.sender)}`;
+    case "PauseToggled":
+      return args.paused ? "Market paused" : "Market unpaused";
+    case "CooldownSet":
+      return `Cooldown changed from ${args.oldCooldown}s to ${args.newCooldown}s`;
+    case "MarketCreated":
+      return `Market #${args.marketId} created for model ${args.modelId} by ${short(args.provider)}`;
+    case "BatchOpened":
+      return `Batch #${args.batchId} opened for market #${args.marketId}`;
+    case "BatchClosed":
+      return `Batch #${args.batchId} closed`;
+    case "DecryptionRequested":
+      return `Evaluation of batch #${args.batchId} requested (request ${args.requestId})`;
+    default:
+      return name;
+  }
+};
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ account, models, onMarketCreated }) => {
+  const [access, setAccess] = useState<Access | null>(null);
+  const [paused, setPausedState] = useState(false);
+  const [cooldown, setCooldownState] = useState<bigint>(0n);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [providerAddress, setProviderAddress] = useState("");
+  const [newCooldown, setNewCooldown] = useState("");
+  const [marketForm, setMarketForm] = useState(EMPTY_MARKET_FORM);
+  const [marketId, setMarketId] = useState("");
+  const [batchId, setBatchId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: "success" | "error"; message: string } | null>(null);
+
+  const loadState = async () => {
+    const market = await getMarketReadOnly();
+    if (!market || !account) {
+      setAccess(NO_ACCESS);
+      return;
+    }
+    try {
+      const [isAdmin, isPauser, isProvider, isPaused, cooldownSeconds] = await Promise.all([
+        market.hasRole(ethers.id("ADMIN_ROLE"), account),
+        market.hasRole(ethers.id("PAUSER_ROLE"), account),
+        market.hasRole(ethers.id("BATCH_OPERATOR_ROLE"), account),
+        market.paused(),
+        market.cooldownSeconds()
+      ]);
+      setAccess({ isAdmin, isPauser, isProvider });
+      setPausedState(isPaused);
+      setCooldownState(cooldownSeconds);
+
+      const roleNames = new Map<string, string>();
+      const roles = ["ADMIN_ROLE", "BATCH_OPERATOR_ROLE", "EVALUATOR_ROLE", "PAUSER_ROLE", "TREASURER_ROLE", "ARBITRATOR_ROLE"];
+      roles.forEach((role) => roleNames.set(ethers.id(role), role));
+
+      const logs = (await Promise.all(
+        adminEventFilters(market).map((filter) => market.queryFilter(filter, config.marketDeployBlock))
+      )).flat();
+      logs.sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index);
+      setHistory(logs.slice(0, HISTORY_LIMIT).map((log) => ({
+        key: `${log.transactionHash}-${log.index}`,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        description: describeEvent(log.eventName, log.args, roleNames)
+      })));
+    } catch (e: any) {
+      console.error("Failed to load admin state:", e);
+      setStatus({ kind: "error", message: "Failed to load admin state: " + decodeMarketError(e) });
+      setAccess((current) => current ?? NO_ACCESS);
+    }
+  };
+
+  useEffect(() => {
+    setAccess(null);
+    loadState();
+  }, [account]);
+
+  // Every action asks for confirmation, then reports the outcome and refreshes the history
+  const run = async (prompt: string, action: () => Promise<unknown>, done: string) => {
+    if (!window.confirm(prompt)) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      setStatus({ kind: "success", message: done });
+      await loadState();
+    } catch (e: any) {
+      console.error("Admin action failed:", e);
+      setStatus({ kind: "error", message: decodeMarketError(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!account) {
+    return <div className="admin-console tech-card"><p>Connect a wallet to use the admin console.</p></div>;
+  }
+  if (!access) {
+    return <div className="admin-console tech-card"><p>Checking permissions...</p></div>;
+  }
+  if (!access.isAdmin && !access.isPauser && !access.isProvider) {
+    return (
+      <div className="admin-console tech-card">
+        <p>{status?.message ?? "The admin console is only available to admins, pausers and providers."}</p>
+      </div>
+    );
+  }
+
+  const validAddress = ethers.isAddress(providerAddress);
+  const isBucketMarket = marketForm.marketType === MarketType.Bucket;
+  const modelsWithoutMarket = models.filter((model) => !model.marketId);
+  const selectedModel = models.find((model) => model.id === marketForm.modelId);
+  const validMarket = selectedModel !== undefined &&
+    Number(marketForm.submissionPeriod) > 0 &&
+    Number(marketForm.evaluationPeriod) > 0 &&
+    (!isBucketMarket || parseBounds(marketForm.bucketBounds).length > 0);
+
+  const updateMarketForm = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setMarketForm({ ...marketForm, [name]: name === "marketType" ? Number(value) : value });
+  };
+
+  const submitMarket = () => run(
+    `Create a ${isBucketMarket ? "bucket" : "score"} market for ${selectedModel?.name}?`,
+    async () => {
+      // The model's leaderboard key is its identifier on chain, which marketIdByModel is keyed by
+      const marketId = await createMarket(marketForm.modelId, {
+        category: marketForm.category,
+        marketType: marketForm.marketType,
+        bucketBounds: isBucketMarket ? parseBounds(marketForm.bucketBounds) : [],
+        tolerance: isBucketMarket ? 0 : Number(marketForm.tolerance),
+        minStake: ethers.parseEther(marketForm.minStake || "0"),
+        maxStake: ethers.parseEther(marketForm.maxStake || "0"),
+        submissionPeriod: BigInt(marketForm.submissionPeriod),
+        evaluationPeriod: BigInt(marketForm.evaluationPeriod)
+      });
+      onMarketCreated();
+      setMarketId(marketId.toString());
+      setMarketForm(EMPTY_MARKET_FORM);
+    },
+    "Market created"
+  );
+
+  return (
+    <div className="admin-console">
+      {status && (
+        <div className={`decryption-notice admin-status ${status.kind}`}>{status.message}</div>
+      )}
+
+      {access.isAdmin && (
+        <div className="tech-card">
+          <h2>Providers</h2>
+          <div className="form-group">
+            <label>Provider Address</label>
+            <input
+              type="text"
+              value={providerAddress}
+              onChange={(e) => setProviderAddress(e.target.value.trim())}
+              placeholder="0x..."
+              className="tech-input"
+            />
+          </div>
+          <div className="admin-actions">
+            <button
+              className="tech-button"
+              disabled={busy || !validAddress}
+              onClick={() => run(`Make ${providerAddress} a provider?`, () => addProvider(providerAddress), "Provider added")}
+            >
+              Add Provider
+            </button>
+            <button
+              className="tech-button primary"
+              disabled={busy || !validAddress}
+              onClick={() => run(`Remove ${providerAddress} as a provider?`, () => removeProvider(providerAddress), "Provider removed")}
+            >
+              Remove Provider
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(access.isAdmin || access.isPauser) && (
+        <div className="tech-card">
+          <h2>Protocol</h2>
+          <div className="model-info">
+            <div className="info-item">
+              <span>Status:</span>
+              <strong>{paused ? "Paused" : "Running"}</strong>
+            </div>
+            <div className="info-item">
+              <span>Cooldown:</span>
+              <strong>{cooldown.toString()}s</strong>
+            </div>
+          </div>
+          {access.isPauser && (
+            <div className="admin-actions">
+              <button
+                className="tech-button primary"
+                disabled={busy}
+                onClick={() => run(
+                  paused ? "Unpause the market?" : "Pause the market? Predictions and batch operations will stop.",
+                  () => setPaused(!paused),
+                  paused ? "Market unpaused" : "Market paused"
+                )}
+              >
+                {paused ? "Unpause" : "Pause"}
+              </button>
+            </div>
+          )}
+          {access.isAdmin && (
+            <>
+              <div className="form-group">
+                <label>Cooldown (seconds)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={newCooldown}
+                  onChange={(e) => setNewCooldown(e.target.value)}
+                  className="tech-input"
+                />
+              </div>
+              <button
+                className="tech-button"
+                disabled={busy || !(Number(newCooldown) > 0)}
+                onClick={() => run(`Set the cooldown to ${newCooldown}s?`, () => setCooldown(BigInt(newCooldown)), "Cooldown updated")}
+              >
+                Set Cooldown
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {access.isProvider && (
+        <div className="tech-card">
+          <h2>Markets</h2>
+          <div className="form-group">
+            <label>Model</label>
+            <select name="modelId" value={marketForm.modelId} onChange={updateMarketForm} className="tech-select">
+              <option value="">
+                {modelsWithoutMarket.length === 0 ? "Every model already has a market" : "Select a model..."}
+              </option>
+              {modelsWithoutMarket.map((model) => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Category</label>
+            <select name="category" value={marketForm.category} onChange={updateMarketForm} className="tech-select">
+              <option value="NLP">Natural Language Processing</option>
+              <option value="CV">Computer Vision</option>
+              <option value="RL">Reinforcement Learning</option>
+              <option value="GenAI">Generative AI</option>
+              <option value="Other">Other</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Market Type</label>
+            <select name="marketType" value={marketForm.marketType} onChange={updateMarketForm} className="tech-select">
+              <option value={MarketType.Score}>Score (win within a tolerance)</option>
+              <option value={MarketType.Bucket}>Buckets (pick a score range)</option>
+            </select>
+          </div>
+          {isBucketMarket ? (
+            <div className="form-group">
+              <label>Bucket Bounds</label>
+              <input
+                type="text"
+                name="bucketBounds"
+                value={marketForm.bucketBounds}
+                onChange={updateMarketForm}
+                placeholder="50, 70, 90"
+                className="tech-input"
+              />
+            </div>
+          ) : (
+            <div className="form-group">
+              <label>Tolerance (points)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                name="tolerance"
+                value={marketForm.tolerance}
+                onChange={updateMarketForm}
+                className="tech-input"
+              />
+            </div>
+          )}
+          <div className="form-group">
+            <label>Min Stake (ETH)</label>
+            <input type="number" min="0" step="0.01" name="minStake" value={marketForm.minStake} onChange={updateMarketForm} className="tech-input" />
+          </div>
+          <div className="form-group">
+            <label>Max Stake (ETH, 0 for no cap)</label>
+            <input type="number" min="0" step="0.01" name="maxStake" value={marketForm.maxStake} onChange={updateMarketForm} className="tech-input" />
+          </div>
+          <div className="form-group">
+            <label>Submission Period (seconds)</label>
+            <input type="number" min="1" name="submissionPeriod" value={marketForm.submissionPeriod} onChange={updateMarketForm} className="tech-input" />
+          </div>
+          <div className="form-group">
+            <label>Evaluation Period (seconds)</label>
+            <input type="number" min="1" name="evaluationPeriod" value={marketForm.evaluationPeriod} onChange={updateMarketForm} className="tech-input" />
+          </div>
+          <button className="tech-button primary" disabled={busy || !validMarket} onClick={submitMarket}>
+            Create Market
+          </button>
+        </div>
+      )}
+
+      {access.isProvider && (
+        <div className="tech-card">
+          <h2>Batches</h2>
+          <div className="form-group">
+            <label>Market ID</label>
+            <input
+              type="number"
+              min="1"
+              value={marketId}
+              onChange={(e) => setMarketId(e.target.value)}
+              className="tech-input"
+            />
+          </div>
+          <div className="admin-actions">
+            <button
+              className="tech-button"
+              disabled={busy || marketId === ""}
+              onClick={() => run(
+                `Open a new batch for market #${marketId}? The keeper bounty is escrowed from your wallet.`,
+                () => openBatch(BigInt(marketId)),
+                "Batch opened"
+              )}
+            >
+              Open Batch
+            </button>
+            <button
+              className="tech-button primary"
+              disabled={busy || marketId === ""}
+              onClick={() => run(`Close the open batch of market #${marketId}?`, () => closeBatch(BigInt(marketId)), "Batch closed")}
+            >
+              Close Batch
+            </button>
+          </div>
+          <div className="form-group">
+            <label>Batch ID</label>
+            <input
+              type="number"
+              min="1"
+              value={batchId}
+              onChange={(e) => setBatchId(e.target.value)}
+              className="tech-input"
+            />
+          </div>
+          <button
+            className="tech-button"
+            disabled={busy || batchId === ""}
+            onClick={() => run(
+              `Request evaluation of batch #${batchId}? Its result will be decrypted.`,
+              () => requestBatchEvaluation(BigInt(batchId)),
+              "Evaluation requested"
+            )}
+          >
+            Request Evaluation
+          </button>
+        </div>
+      )}
+
+      <div className="tech-card">
+        <h2>Admin History</h2>
+        {history.length === 0 ? (
+          <p>No admin events yet</p>
+        ) : (
+          <ul className="admin-history">
+            {history.map((entry) => (
+              <li key={entry.key}>
+                <span className="admin-history-block">#{entry.blockNumber}</span>
+                <span>{entry.description}</span>
+                <small title={entry.transactionHash}>{entry.transactionHash.substring(0, 10)}...</small>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config } from '../contract';
+import {
+  BatchStatus,
+  batchClosedFilter,
+  batchOpenedFilter,
+  decodeMarketError,
+  decryptionCompletedFilter,
+  getMarketReadOnly
+} from '../market';
+
+interface BatchRow {
+  batchId: bigint;
+  marketId: bigint;
+  modelId: string;
+  status: BatchStatus;
+  submissionDeadline: number;
+  closedAtBlock: number | null;
+  submissionCount: bigint;
+  stakedInClear: bigint; // Plain stakes; confidential ones only show up in the total after evaluation
+  result: { actualScore: bigint; winnerCount: bigint; totalStaked: bigint } | null;
+}
+
+type BatchFilter = "all" | "open" | "settled";
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  [BatchStatus.Open]: "Open",
+  [BatchStatus.Closed]: "Closed",
+  [BatchStatus.EvaluationRequested]: "Evaluating",
+  [BatchStatus.Settled]: "Evaluated",
+  [BatchStatus.Cancelled]: "Cancelled",
+  [BatchStatus.Disputed]: "Disputed"
+};
+
+const BatchDashboard: React.FC = () => {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [filter, setFilter] = useState<BatchFilter>("all");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const loadBatches = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const market = await getMarketReadOnly();
+      if (!market) {
+        setError("Prediction market is not deployed on this network");
+        return;
+      }
+      const fromBlock = config.marketDeployBlock;
+      const [opened, closed, completed] = await Promise.all([
+        market.queryFilter(batchOpenedFilter(market), fromBlock),
+        market.queryFilter(batchClosedFilter(market), fromBlock),
+        market.queryFilter(decryptionCompletedFilter(market), fromBlock)
+      ]);
+
+      const closedAt = new Map(closed.map((e) => [e.args.batchId, e.blockNumber]));
+      // A batch re-evaluated after an upheld dispute has several results; logs are in order, so the last one wins
+      const results = new Map(completed.map((e) => [e.args.batchId, e.args]));
+      const marketIds = [...new Set(opened.map((e) => e.args.marketId))];
+      const modelIds = new Map(await Promise.all(
+        marketIds.map(async (id) => [id, (await market.getMarket(id)).modelId] as const)
+      ));
+
+      const loaded = await Promise.all(opened.map(async (e): Promise<BatchRow> => {
+        const { batchId, marketId, submissionDeadline } = e.args;
+        const [batch, status] = await Promise.all([market.batches(batchId), market.getBatchStatus(batchId)]);
+        const result = results.get(batchId);
+        return {
+          batchId,
+          marketId,
+          modelId: modelIds.get(marketId) ?? "",
+          status: Number(status),
+          submissionDeadline: Number(submissionDeadline),
+          closedAtBlock: closedAt.get(batchId) ?? null,
+          submissionCount: batch.submissionCount,
+          stakedInClear: batch.plainStakeTotal,
+          result: result && Number(status) !== BatchStatus.Disputed
+            ? { actualScore: result.actualScore, winnerCount: result.winnerCount, totalStaked: result.totalStaked }
+            : null
+        };
+      }));
+
+      setRows(loaded.sort((a, b) => Number(b.batchId - a.batchId)));
+    } catch (e: any) {
+      console.error("Failed to load batches:", e);
+      setError("Failed to load batches: " + decodeMarketError(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const visibleRows = rows.filter((row) =>
+    filter === "all" ||
+    (filter === "open" && row.status === BatchStatus.Open) ||
+    (filter === "settled" && row.status === BatchStatus.Settled)
+  );
+
+  return (
+    <div className="batch-dashboard">
+      <div className="search-filter-section tech-card">
+        <h2>Prediction Batches</h2>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as BatchFilter)}
+          className="tech-select"
+        >
+          <option value="all">All Batches</option>
+          <option value="open">Open</option>
+          <option value="settled">Settled</option>
+        </select>
+        <button onClick={loadBatches} className="refresh-btn tech-button" disabled={loading}>
+          {loading ? "Refreshing..." : "Refresh"}
+        </button>
+      </div>
+
+      {error && <div className="decryption-notice">{error}</div>}
+
+      <div className="leaderboard-table tech-card">
+        <div className="table-header batch-grid">
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Model</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Predictions</div>
+          <div className="header-cell">Total Staked</div>
+          <div className="header-cell">Result</div>
+        </div>
+
+        {!loading && visibleRows.length === 0 ? (
+          <div className="no-models">
+            <p>No batches found</p>
+          </div>
+        ) : (
+          visibleRows.map((row) => (
+            <div className="model-row batch-grid" key={row.batchId.toString()}>
+              <div className="table-cell rank">#{row.batchId.toString()}</div>
+              <div className="table-cell name">
+                {row.modelId}
+                {row.status === BatchStatus.Open && (
+                  <small className="batch-deadline">
+                    until {new Date(row.submissionDeadline * 1000).toLocaleString()}
+                  </small>
+                )}
+                {row.closedAtBlock !== null && row.status === BatchStatus.Closed && (
+                  <small className="batch-deadline">closed at block {row.closedAtBlock}</small>
+                )}
+              </div>
+              <div className="table-cell">
+                <span className={`batch-status status-${STATUS_LABELS[row.status].toLowerCase()}`}>
+                  {STATUS_LABELS[row.status]}
+                </span>
+              </div>
+              <div className="table-cell">{row.submissionCount.toString()}</div>
+              <div className="table-cell">
+                {row.result
+                  ? `${ethers.formatEther(row.result.totalStaked)} ETH`
+                  : `${ethers.formatEther(row.stakedInClear)} ETH + confidential`}
+              </div>
+              <div className="table-cell score">
+                {row.result
+                  ? `Score ${row.result.actualScore} · ${row.result.winnerCount} winner${row.result.winnerCount === 1n ? "" : "s"}`
+                  : "Encrypted"}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchDashboard;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { getMarketReadOnly } from '../market';
+
+interface StoredPrediction {
+  encryptedScore: string;
+  amount: bigint;
+  confidential: boolean;
+  claimed: boolean;
+}
+
+interface MyPredictionPanelProps {
+  account?: string;
+  isDecrypting: boolean;
+  decryptWithSignature: (handle: string) => Promise<number | null>;
+}
+
+const MyPredictionPanel: React.FC<MyPredictionPanelProps> = ({ account, isDecrypting, decryptWithSignature }) => {
+  const [batchId, setBatchId] = useState("");
+  const [prediction, setPrediction] = useState<StoredPrediction | null>(null);
+  const [decryptedScore, setDecryptedScore] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadPrediction = async () => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    setPrediction(null);
+    setDecryptedScore(null);
+    try {
+      const market = await getMarketReadOnly();
+      if (!market) {
+        setError("Prediction market is not deployed on this network");
+        return;
+      }
+      const p = await market.predictions(BigInt(batchId), account);
+      if (p.predictor === ethers.ZeroAddress) {
+        setError(`No prediction in batch #${batchId}`);
+        return;
+      }
+      setPrediction({
+        encryptedScore: p.encryptedScore,
+        amount: p.amount,
+        confidential: p.confidential,
+        claimed: p.claimed
+      });
+    } catch (e: any) {
+      console.error("Failed to load prediction:", e);
+      setError("Failed to load prediction: " + (e.message || "Unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecrypt = async () => {
+    if (!prediction) return;
+    if (decryptedScore !== null) {
+      setDecryptedScore(null);
+      return;
+    }
+    const decrypted = await decryptWithSignature(prediction.encryptedScore);
+    if (decrypted !== null) setDecryptedScore(decrypted);
+  };
+
+  return (
+    <div className="my-prediction-section tech-card">
+      <h2>My Prediction</h2>
+      <div className="search-box">
+        <input
+          type="number"
+          min="0"
+          placeholder="Batch ID"
+          value={batchId}
+          onChange={(e) => setBatchId(e.target.value)}
+          className="tech-input"
+        />
+        <button
+          className="tech-button"
+          onClick={loadPrediction}
+          disabled={loading || batchId === ""}
+        >
+          {loading ? "Loading..." : "Load"}
+        </button>
+      </div>
+
+      {error && <div className="decryption-notice">{error}</div>}
+
+      {prediction && (
+        <div className="model-info">
+          <div className="info-item">
+            <span>Stake:</span>
+            <strong>{prediction.confidential ? "Confidential" : `${ethers.formatEther(prediction.amount)} ETH`}</strong>
+          </div>
+          <div className="info-item">
+            <span>Claimed:</span>
+            <strong>{prediction.claimed ? "Yes" : "No"}</strong>
+          </div>
+          <div className="encrypted-data">
+            {prediction.encryptedScore.substring(0, 18)}...
+            <span className="fhe-tag">
+              <span className="fhe-icon"></span>
+              FHE Encrypted
+            </span>
+          </div>
+          <button
+            className="decrypt-btn tech-button"
+            onClick={handleDecrypt}
+            disabled={isDecrypting}
+          >
+            {isDecrypting ? "Decrypting..." : decryptedScore !== null ? "Hide Decrypted Value" : "Decrypt with Wallet Signature"}
+          </button>
+
+          {decryptedScore !== null && (
+            <div className="decrypted-data-section">
+              <h3>Your Submitted Prediction</h3>
+              <div className="decrypted-value">{decryptedScore}</div>
+              <div className="decryption-notice">
+                <div className="warning-icon"></div>
+                <span>Decrypted locally with your signed keypair. For bucket markets this is the bucket index.</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyPredictionPanel;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  decodeMarketError,
+  getMarketIdForModel,
+  getMarketReadOnly,
+  getPrediction,
+  submitPrediction
+} from '../market';
+
+// Score markets only: bucket markets take a bucket index instead of a score
+const SCORE_MARKET = 0n;
+
+interface OpenBatch {
+  batchId: bigint;
+  submissionDeadline: number;
+  minStake: bigint;
+  maxStake: bigint; // 0 means uncapped
+}
+
+interface PredictionDialogProps {
+  model: { id: string; name: string };
+  account?: string;
+  onClose: () => void;
+  onSubmitted: (batchId: bigint) => void;
+}
+
+const PredictionDialog: React.FC<PredictionDialogProps> = ({ model, account, onClose, onSubmitted }) => {
+  const [batch, setBatch] = useState<OpenBatch | null>(null);
+  const [blockedReason, setBlockedReason] = useState("");
+  const [cooldownEndsAt, setCooldownEndsAt] = useState(0);
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+  const [score, setScore] = useState("");
+  const [stake, setStake] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Everything the contract would revert on that can be known up front: no open batch, a
+  // prediction already in it, or the account's submission cooldown.
+  const loadState = async () => {
+    setLoading(true);
+    setBlockedReason("");
+    try {
+      const market = await getMarketReadOnly();
+      if (!market) {
+        setBlockedReason("Prediction market is not deployed on this network");
+        return;
+      }
+      const marketId = await getMarketIdForModel(model.id);
+      if (marketId === 0n) {
+        setBlockedReason("This model has no prediction market yet");
+        return;
+      }
+      const info = await market.getMarket(marketId);
+      if (info.config.marketType !== SCORE_MARKET) {
+        setBlockedReason("This model's market takes bucket predictions, which this dialog does not support yet");
+        return;
+      }
+      const batchId = info.currentBatchId;
+      const current = await market.batches(batchId);
+      if (batchId === 0n || !current.isOpen || Number(current.submissionDeadline) < Math.floor(Date.now() / 1000)) {
+        setBlockedReason("No batch is accepting predictions for this model right now");
+        return;
+      }
+      setBatch({
+        batchId,
+        submissionDeadline: Number(current.submissionDeadline),
+        minStake: info.config.minStake,
+        maxStake: info.config.maxStake
+      });
+
+      if (account) {
+        if (await getPrediction(batchId, account)) {
+          setBlockedReason(`You already have a prediction in batch #${batchId}`);
+        }
+        const [last, cooldown] = await Promise.all([market.lastSubmissionTime(account), market.cooldownSeconds()]);
+        setCooldownEndsAt(last === 0n ? 0 : Number(last + cooldown));
+      }
+    } catch (e: any) {
+      console.error("Failed to load market state:", e);
+      setBlockedReason("Failed to load market state: " + decodeMarketError(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadState();
+  }, [model.id, account]);
+
+  const cooldownLeft = Math.max(0, cooldownEndsAt - now);
+
+  const validate = (): { score: number; stake: bigint } | string => {
+    const parsedScore = Number(score);
+    if (score === "" || !Number.isInteger(parsedScore) || parsedScore < 0 || parsedScore > 100) {
+      return "Enter a whole-number score from 0 to 100";
+    }
+    let parsedStake: bigint;
+    try {
+      parsedStake = ethers.parseEther(stake || "0");
+    } catch {
+      return "Enter the stake in ETH, e.g. 0.1";
+    }
+    if (!batch) return "No open batch";
+    if (parsedStake < batch.minStake) return `The minimum stake is ${ethers.formatEther(batch.minStake)} ETH`;
+    if (batch.maxStake !== 0n && parsedStake > batch.maxStake) {
+      return `The maximum stake is ${ethers.formatEther(batch.maxStake)} ETH`;
+    }
+    return { score: parsedScore, stake: parsedStake };
+  };
+
+  const handleSubmit = async () => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+    const input = validate();
+    if (typeof input === "string") {
+      setError(input);
+      return;
+    }
+    setSubmitting(true);
+    setError("");
+    try {
+      await submitPrediction(batch!.batchId, input.score, input.stake);
+      onSubmitted(batch!.batchId);
+    } catch (e: any) {
+      console.error("Prediction failed:", e);
+      setError(decodeMarketError(e));
+      // The cooldown or an earlier prediction may have changed under us
+      loadState();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !!batch && !blockedReason && cooldownLeft === 0 && !submitting && !loading;
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal tech-card">
+        <div className="modal-header">
+          <h2>Predict: {model.name}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="fhe-notice-banner">
+            <div className="key-icon"></div>
+            <div>
+              <strong>Encrypted Prediction</strong>
+              <p>Your score is encrypted in this browser with Zama FHE. The stake is sent in clear as the transaction value.</p>
+            </div>
+          </div>
+
+          {loading && <div className="decryption-notice">Loading market state...</div>}
+          {blockedReason && <div className="decryption-notice">{blockedReason}</div>}
+          {!blockedReason && cooldownLeft > 0 && (
+            <div className="decryption-notice">
+              Cooldown active: you can predict again in {cooldownLeft}s
+            </div>
+          )}
+
+          {batch && (
+            <div className="model-info">
+              <div className="info-item">
+                <span>Batch:</span>
+                <strong>#{batch.batchId.toString()}</strong>
+              </div>
+              <div className="info-item">
+                <span>Closes:</span>
+                <strong>{new Date(batch.submissionDeadline * 1000).toLocaleString()}</strong>
+              </div>
+              <div className="info-item">
+                <span>Stake range:</span>
+                <strong>
+                  {ethers.formatEther(batch.minStake)} – {batch.maxStake === 0n ? "∞" : ethers.formatEther(batch.maxStake)} ETH
+                </strong>
+              </div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Predicted Score *</label>
+            <input
+              type="number"
+              value={score}
+              onChange={(e) => setScore(e.target.value)}
+              placeholder="0-100"
+              className="tech-input"
+              min="0"
+              max="100"
+              step="1"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Stake (ETH) *</label>
+            <input
+              type="number"
+              value={stake}
+              onChange={(e) => setStake(e.target.value)}
+              placeholder={batch ? ethers.formatEther(batch.minStake) : "0.1"}
+              className="tech-input"
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          {error && <div className="decryption-notice">{error}</div>}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn tech-button">
+            Cancel
+          </button>
+          <button onClick={handleSubmit} disabled={!canSubmit} className="submit-btn tech-button primary">
+            {submitting ? "Encrypting & Submitting..." : "Submit Prediction"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PredictionDialog;
@@ -0,0 +1,100 @@
+// encryption.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { config } from "./contract";
+
+// Gateway contracts the hardhat plugin's mock signs input proofs and decryptions for
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// Where ciphertexts come from. Both backends return an FhevmInstance, so the rest of the app
+// (encrypted inputs, user decryption) does not know which one it is talking to.
+export interface FhevmBackend {
+  name: string;
+  createInstance: () => Promise<FhevmInstance>;
+}
+
+export type EncryptedValue =
+  | { type: "uint8"; value: number }
+  | { type: "uint32"; value: number }
+  | { type: "uint64"; value: bigint };
+
+export interface EncryptedInput {
+  handles: string[];
+  inputProof: string;
+}
+
+// Zama's relayer and KMS on Sepolia, through the wallet's provider
+export const relayerBackend: FhevmBackend = {
+  name: "relayer",
+  createInstance: async () => {
+    await initSDK();
+    return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+  },
+};
+
+// A `npx hardhat node` running the FHEVM mock: encrypts and decrypts locally, no network needed.
+// The mock utils are only loaded when this backend is used, so they stay out of the Sepolia build.
+export const localMockBackend = (rpcUrl: string): FhevmBackend => ({
+  name: "mock",
+  createInstance: async () => {
+    const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const metadata = await provider.send("fhevm_relayer_metadata", []);
+    const instance = await MockFhevmInstance.create(provider, provider, {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: Number((await provider.getNetwork()).chainId),
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+    });
+    return instance as unknown as FhevmInstance;
+  },
+});
+
+let backend: FhevmBackend =
+  config.fhevmBackend === "mock" ? localMockBackend(config.mockRpcUrl) : relayerBackend;
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmBackend(): FhevmBackend {
+  return backend;
+}
+
+// Swaps the backend, e.g. to point a dev build at a local node; the next call re-creates the instance
+export function setFhevmBackend(next: FhevmBackend) {
+  backend = next;
+  instancePromise = null;
+}
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = backend.createInstance();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+// Encrypts `values`, in order, into one input for `contractAddress`. The proof is bound to
+// `userAddress`, which must be the account that sends the transaction.
+export async function encryptInput(
+  contractAddress: string,
+  userAddress: string,
+  values: EncryptedValue[]
+): Promise<EncryptedInput> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const v of values) {
+    if (v.type === "uint8") input.add8(v.value);
+    else if (v.type === "uint32") input.add32(v.value);
+    else input.add64(v.value);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  return { handles: handles.map((h) => ethers.hexlify(h)), inputProof: ethers.hexlify(inputProof) };
+}
+
+export async function encryptScore(contractAddress: string, userAddress: string, score: number): Promise<EncryptedInput> {
+  if (!Number.isInteger(score) || score < 0 || score > 100) throw new Error("Score must be a whole number from 0 to 100");
+  return encryptInput(contractAddress, userAddress, [{ type: "uint32", value: score }]);
+}
@@ -0,0 +1,68 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { getFhevmInstance } from "./encryption";
+
+// How long a signed decryption keypair stays valid
+const DECRYPTION_DURATION_DAYS = 1;
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Kept in memory only: the private key never leaves this tab
+const permits = new Map<string, DecryptionPermit>();
+
+// Generates a keypair and has the user sign the EIP-712 request authorising it to decrypt
+// handles of `contractAddress`. Reused until it expires, so the wallet prompts once per session.
+const getDecryptionPermit = async (
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  contractAddress: string
+): Promise<DecryptionPermit> => {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const cached = permits.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 86400 > now + 60) return cached;
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp: now, durationDays: DECRYPTION_DURATION_DAYS };
+  permits.set(key, permit);
+  return permit;
+};
+
+// Decrypts a ciphertext handle the signer has ACL access to. The relayer re-encrypts it under
+// the user's keypair, so the cleartext is only ever visible in this browser.
+export async function userDecrypt(
+  handle: string,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<bigint | boolean | string> {
+  const instance = await getFhevmInstance();
+  const permit = await getDecryptionPermit(instance, signer, contractAddress);
+
+  const results = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    permit.startTimestamp,
+    permit.durationDays
+  );
+  return results[handle];
+}
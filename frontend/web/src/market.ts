@@ -0,0 +1,263 @@
+// market.ts
+import { ethers, BigNumberish } from "ethers";
+import { AIPredictMarketFHE, AIPredictMarketFHE__factory } from "../../../types";
+import { config, getTestnetProvider } from "./contract";
+import { encryptScore } from "./encryption";
+
+export type { AIPredictMarketFHE };
+export type BatchSummary = AIPredictMarketFHE.BatchSummaryStructOutput;
+export type PredictionSummary = AIPredictMarketFHE.PredictionSummaryStructOutput;
+export type MarketConfig = AIPredictMarketFHE.MarketConfigStruct;
+
+// Mirrors AIPredictMarketFHE.MarketType
+export enum MarketType {
+  Score,
+  Bucket,
+}
+
+// Mirrors AIPredictMarketFHE.BatchStatus; the contract returns the index
+export enum BatchStatus {
+  Open,
+  Closed,
+  EvaluationRequested,
+  Settled,
+  Cancelled,
+  Disputed,
+}
+
+const marketInterface = AIPredictMarketFHE__factory.createInterface();
+
+// Custom errors a user can run into, in words. Anything else falls back to the error's name.
+const ERROR_MESSAGES: Record<string, string> = {
+  CooldownActive: "You acted too recently. Please wait for the cooldown to pass and try again.",
+  BatchNotOpen: "This batch is closed and no longer accepts predictions.",
+  BatchNotClosed: "The market's current batch is still open.",
+  SubmissionDeadlinePassed: "The submission deadline for this batch has passed.",
+  NotProvider: "Only registered providers can do this.",
+  NotMarketProvider: "Only the market's provider can operate its batches.",
+  NotOwner: "Only the contract owner can do this.",
+  MissingRole: "Your account does not have the role this action requires.",
+  Paused: "The market is paused.",
+  StakeOutOfRange: "The stake is outside this market's limits.",
+  InvalidBounty: "Opening a batch must escrow exactly the current keeper bounty.",
+  InvalidCooldown: "The cooldown must be longer than zero seconds.",
+  MarketNotFound: "This market does not exist.",
+  MarketExists: "This model already has a market.",
+  InvalidMarketConfig: "The market settings are invalid: check the stakes, periods and buckets.",
+  MarketInactive: "This market is inactive.",
+  WrongMarketType: "This batch belongs to a market of another type.",
+  TestSetMissing: "Upload a test set before requesting evaluation.",
+  BatchAlreadyEvaluated: "This batch has already been evaluated.",
+  BatchNotEvaluated: "This batch has not been evaluated yet.",
+  BatchIsCancelled: "This batch has been cancelled.",
+  EvaluationTimedOut: "This batch was not evaluated in time; its stakes are refundable.",
+  ChallengeWindowActive: "Rewards unlock once the challenge window has passed.",
+  DisputeOpen: "The result is disputed; claims are frozen until it is resolved.",
+  AlreadyClaimed: "You have already claimed for this batch.",
+  NoPrediction: "You have no prediction in this batch.",
+};
+
+// require() reasons the contract still uses
+const REASON_MESSAGES: Record<string, string> = {
+  Value_Mismatch: "The ETH sent does not match the stake.",
+  Already_Predicted_In_Batch: "You already have a prediction in this batch.",
+};
+
+const getReadProvider = async (): Promise<ethers.Provider> =>
+  config.fhevmBackend === "mock" ? new ethers.JsonRpcProvider(config.mockRpcUrl) : getTestnetProvider();
+
+const getSigner = async (): Promise<ethers.Signer> => {
+  if (!(window as any).ethereum) throw new Error("No injected wallet");
+  return new ethers.BrowserProvider((window as any).ethereum).getSigner();
+};
+
+export async function getMarketReadOnly(): Promise<AIPredictMarketFHE | null> {
+  if (!config.marketAddress) return null;
+  try {
+    return AIPredictMarketFHE__factory.connect(config.marketAddress, await getReadProvider());
+  } catch (error) {
+    console.error("Failed to create read-only market contract:", error);
+    return null;
+  }
+}
+
+export async function getMarketWithSigner(): Promise<AIPredictMarketFHE> {
+  if (!config.marketAddress) throw new Error("Prediction market is not deployed on this network");
+  return AIPredictMarketFHE__factory.connect(config.marketAddress, await getSigner());
+}
+
+const requireMarket = async (): Promise<AIPredictMarketFHE> => {
+  const market = await getMarketReadOnly();
+  if (!market) throw new Error("Prediction market is not deployed on this network");
+  return market;
+};
+
+// Turns a failed call or transaction into a message for the user
+export function decodeMarketError(error: any): string {
+  if (error?.code === "ACTION_REJECTED") return "Transaction rejected by user";
+
+  let name: string | undefined = error?.revert?.name;
+  const data = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  if (!name && typeof data === "string" && data.length >= 10) {
+    name = marketInterface.parseError(data)?.name;
+  }
+  if (name) return ERROR_MESSAGES[name] ?? `Transaction reverted: ${name}`;
+
+  const reason: string | undefined = error?.reason;
+  if (reason) return REASON_MESSAGES[reason] ?? reason;
+  return error?.shortMessage || error?.message || "Unknown error";
+}
+
+// Transactions
+
+// Creates a market for `modelId` and returns its id, read from the MarketCreated event
+export async function createMarket(modelId: string, marketConfig: MarketConfig): Promise<bigint> {
+  const market = await getMarketWithSigner();
+  const receipt = await (await market.createMarket(modelId, marketConfig)).wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = market.interface.parseLog(log);
+    if (parsed?.name === "MarketCreated") return parsed.args.marketId;
+  }
+  throw new Error("MarketCreated event not found");
+}
+
+export async function openBatch(marketId: BigNumberish) {
+  const market = await getMarketWithSigner();
+  const bounty = await market.keeperBounty();
+  return (await market.openBatch(marketId, { value: bounty })).wait();
+}
+
+export async function closeBatch(marketId: BigNumberish) {
+  const market = await getMarketWithSigner();
+  return (await market.closeBatch(marketId)).wait();
+}
+
+// Encrypts the score for the connected account and stakes `stake` wei as msg.value
+export async function submitPrediction(batchId: BigNumberish, score: number, stake: bigint) {
+  const signer = await getSigner();
+  const market = AIPredictMarketFHE__factory.connect(config.marketAddress, signer);
+  const { handles, inputProof } = await encryptScore(config.marketAddress, await signer.getAddress(), score);
+  const tx = await market["submitPrediction(uint256,bytes32,bytes,uint256)"](
+    batchId,
+    handles[0],
+    inputProof,
+    stake,
+    { value: stake }
+  );
+  return tx.wait();
+}
+
+export async function requestBatchEvaluation(batchId: BigNumberish) {
+  const market = await getMarketWithSigner();
+  return (await market.requestBatchEvaluation(batchId)).wait();
+}
+
+// Admin. Providers are accounts holding BATCH_OPERATOR_ROLE; managing them needs ADMIN_ROLE.
+
+export async function addProvider(account: string) {
+  const market = await getMarketWithSigner();
+  return (await market.grantRole(await market.BATCH_OPERATOR_ROLE(), account)).wait();
+}
+
+export async function removeProvider(account: string) {
+  const market = await getMarketWithSigner();
+  return (await market.revokeRole(await market.BATCH_OPERATOR_ROLE(), account)).wait();
+}
+
+export async function setPaused(paused: boolean) {
+  const market = await getMarketWithSigner();
+  return (await market.setPaused(paused)).wait();
+}
+
+export async function setCooldown(seconds: BigNumberish) {
+  const market = await getMarketWithSigner();
+  return (await market.setCooldown(seconds)).wait();
+}
+
+// Views
+
+export async function getBatches(offset: BigNumberish, limit: BigNumberish): Promise<{ batches: BatchSummary[]; total: bigint }> {
+  const [batches, total] = await (await requireMarket()).getBatches(offset, limit);
+  return { batches, total };
+}
+
+export async function getBatchPredictions(
+  batchId: BigNumberish,
+  offset: BigNumberish,
+  limit: BigNumberish
+): Promise<{ predictions: PredictionSummary[]; total: bigint }> {
+  const [predictions, total] = await (await requireMarket()).getBatchPredictions(batchId, offset, limit);
+  return { predictions, total };
+}
+
+export async function getPredictionHistory(
+  account: string,
+  offset: BigNumberish,
+  limit: BigNumberish
+): Promise<{ predictions: PredictionSummary[]; total: bigint }> {
+  const [predictions, total] = await (await requireMarket()).getPredictionHistory(account, offset, limit);
+  return { predictions, total };
+}
+
+// Markets are keyed by the model's identifier; 0 means the model has no market yet
+export async function getMarketIdForModel(modelId: string): Promise<bigint> {
+  return (await requireMarket()).marketIdByModel(ethers.id(modelId));
+}
+
+// Predictions submitted to each market so far, summed over all of its batches
+export async function getPredictionCounts(): Promise<Map<bigint, bigint>> {
+  const pageSize = 100;
+  const counts = new Map<bigint, bigint>();
+  for (let offset = 0; ; offset += pageSize) {
+    const { batches, total } = await getBatches(offset, pageSize);
+    for (const batch of batches) {
+      counts.set(batch.marketId, (counts.get(batch.marketId) ?? 0n) + batch.submissionCount);
+    }
+    if (BigInt(offset + pageSize) >= total) return counts;
+  }
+}
+
+export async function getBatchStatus(batchId: BigNumberish): Promise<BatchStatus> {
+  return Number(await (await requireMarket()).getBatchStatus(batchId));
+}
+
+export async function getPrediction(batchId: BigNumberish, account: string) {
+  const prediction = await (await requireMarket()).predictions(batchId, account);
+  return prediction.predictor === ethers.ZeroAddress ? null : prediction;
+}
+
+// Seconds left before `account` may submit again and request a decryption again
+export async function getCooldownRemaining(account: string): Promise<{ submission: number; decryption: number }> {
+  const [submission, decryption] = await (await requireMarket()).cooldownRemaining(account);
+  return { submission: Number(submission), decryption: Number(decryption) };
+}
+
+export async function getCrowdConsensus(batchId: BigNumberish) {
+  return (await requireMarket()).getCrowdConsensus(batchId);
+}
+
+// Event filters, for `market.queryFilter(filter, config.marketDeployBlock)` or `market.on(filter, ...)`.
+// Omitted arguments match any value.
+
+export const batchOpenedFilter = (market: AIPredictMarketFHE, marketId?: BigNumberish) =>
+  market.filters.BatchOpened(undefined, marketId);
+
+export const batchClosedFilter = (market: AIPredictMarketFHE, marketId?: BigNumberish) =>
+  market.filters.BatchClosed(undefined, marketId);
+
+export const predictionSubmittedFilter = (market: AIPredictMarketFHE, batchId?: BigNumberish, predictor?: string) =>
+  market.filters.PredictionSubmitted(batchId, predictor);
+
+export const decryptionCompletedFilter = (market: AIPredictMarketFHE) => market.filters.DecryptionCompleted();
+
+// Events emitted by the admin actions, for the admin console's history
+export const adminEventFilters = (market: AIPredictMarketFHE) => [
+  market.filters.RoleGranted(),
+  market.filters.RoleRevoked(),
+  market.filters.PauseToggled(),
+  market.filters.CooldownSet(),
+  market.filters.MarketCreated(),
+  market.filters.BatchOpened(),
+  market.filters.BatchClosed(),
+  market.filters.DecryptionRequested(),
+];
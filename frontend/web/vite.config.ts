@@ -3,6 +3,15 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  // The typed market client imports the hardhat project's typechain output from ../../types
+  server: {
+    fs: {
+      allow: ["..", "../../types"]
+    }
+  },
+  resolve: {
+    dedupe: ["ethers"]
+  },
   define: {
     'process.env': process.env
   },
@@ -27,6 +27,12 @@ const config: HardhatUserConfig = {
         bytecodeHash: "none",
       },
       evmVersion: "cancun",
+      // Read by the storage layout test to catch upgrades that move existing state
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   paths: {
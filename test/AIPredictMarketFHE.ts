@@ -0,0 +1,2021 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  impersonateAccount,
+  setBalance,
+  time,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { artifacts, ethers, fhevm } from "hardhat";
+import {
+  AIPredictMarketFHE,
+  AIPredictMarketFHE__factory,
+  AIPredictMarketProxy__factory,
+  ProxyAdmin__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const TOLERANCE = 5;
+const STAKE = ethers.parseEther("1");
+// Confidential balances and stakes are counted in gwei
+const GWEI = 10n ** 9n;
+const BOND = ethers.parseEther("0.5");
+
+const MarketType = { Score: 0, Bucket: 1 };
+
+const marketConfig = {
+  category: "NLP",
+  marketType: MarketType.Score,
+  bucketBounds: [] as number[],
+  tolerance: TOLERANCE,
+  minStake: ethers.parseEther("0.1"),
+  maxStake: ethers.parseEther("5"),
+  submissionPeriod: 3600,
+  evaluationPeriod: 3600,
+};
+
+// EIP-1967 slot holding the address of the transparent proxy's ProxyAdmin
+const ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+// Layout of the deployed implementation that upgrades must preserve. Regenerate it with
+// UPDATE_STORAGE_LAYOUT=1 once a new implementation has been deployed.
+const STORAGE_LAYOUT_FILE = path.join(
+  __dirname,
+  "AIPredictMarketFHE.storage-layout.json",
+);
+
+// External libraries the market links against to stay under the contract size limit
+const MARKET_LIBRARIES = [
+  "MarketBalances",
+  "MarketClaims",
+  "MarketDisputes",
+  "MarketEvaluation",
+  "MarketIntents",
+  "MarketPredictions",
+  "MarketRegistry",
+  "MarketReputation",
+  "MarketSettlement",
+];
+
+async function deployImplementation() {
+  const libraries: Record<string, string> = {};
+  for (const name of MARKET_LIBRARIES) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const factory = (await ethers.getContractFactory("AIPredictMarketFHE", {
+    libraries,
+  })) as AIPredictMarketFHE__factory;
+  return factory.deploy();
+}
+
+// The mock oracle delivers callbacks from its relayer account
+async function deployFixture({
+  oracle,
+  bond = BOND,
+}: { oracle?: string; bond?: bigint } = {}) {
+  const [deployer] = await ethers.getSigners();
+  const decryptionOracle =
+    oracle ?? (await fhevm.getRelayerMetadata()).relayerSignerAddress;
+  const implementation = await deployImplementation();
+  const proxyFactory = (await ethers.getContractFactory(
+    "AIPredictMarketProxy",
+  )) as AIPredictMarketProxy__factory;
+  const proxy = await proxyFactory.deploy(
+    await implementation.getAddress(),
+    deployer.address,
+    implementation.interface.encodeFunctionData("initialize", [
+      deployer.address,
+      decryptionOracle,
+      bond,
+    ]),
+  );
+  const contractAddress = await proxy.getAddress();
+  const contract = AIPredictMarketFHE__factory.connect(
+    contractAddress,
+    deployer,
+  );
+
+  return { contract, contractAddress, implementation };
+}
+
+type StorageEntry = {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+};
+
+type StorageLayout = {
+  storage: StorageEntry[];
+  structs: Record<string, StorageEntry[]>;
+};
+
+// The compiler's storageLayout output, which Hardhat's CompilerOutput type leaves out
+type CompilerStorageLayout = {
+  storage: StorageEntry[];
+  types: Record<string, { members?: StorageEntry[] }>;
+};
+
+async function readStorageLayout(): Promise<StorageLayout> {
+  const sourceName = "contracts/AI_Predict_Market_Fhe.sol";
+  const buildInfo = await artifacts.getBuildInfo(
+    `${sourceName}:AIPredictMarketFHE`,
+  );
+  const { storageLayout: layout } = buildInfo!.output.contracts[sourceName]
+    .AIPredictMarketFHE as { storageLayout?: CompilerStorageLayout };
+  if (!layout) throw new Error("Enable storageLayout in outputSelection");
+
+  // Type ids embed AST ids, which change with unrelated edits; keep only the shape
+  const normalize = (entry: StorageEntry): StorageEntry => ({
+    label: entry.label,
+    slot: entry.slot,
+    offset: entry.offset,
+    type: entry.type.replace(/\)\d+/g, ")"),
+  });
+  const structs: Record<string, StorageEntry[]> = {};
+  for (const [id, type] of Object.entries(layout.types)) {
+    if (type.members) {
+      structs[id.replace(/\)\d+/g, ")")] = type.members.map(normalize);
+    }
+  }
+  return { storage: layout.storage.map(normalize), structs };
+}
+
+describe("AIPredictMarketFHE", function () {
+  let signers: Signers;
+  let contract: AIPredictMarketFHE;
+  let contractAddress: string;
+
+  async function submit(
+    signer: HardhatEthersSigner,
+    batchId: bigint,
+    score: number,
+    stake: bigint = STAKE,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .add32(score)
+      .encrypt();
+    const tx = await contract
+      .connect(signer)
+      [
+        "submitPrediction(uint256,bytes32,bytes,uint256)"
+      ](batchId, input.handles[0], input.inputProof, stake, {
+        value: stake,
+      });
+    await tx.wait();
+  }
+
+  async function requestEvaluation(batchId: bigint): Promise<bigint> {
+    const tx = await contract
+      .connect(signers.deployer)
+      .requestBatchEvaluation(batchId);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId;
+  }
+
+  async function impersonateOracle(): Promise<HardhatEthersSigner> {
+    const oracleAddress = await contract.decryptionOracle();
+    await impersonateAccount(oracleAddress);
+    await setBalance(oracleAddress, ethers.parseEther("10"));
+    return ethers.getSigner(oracleAddress);
+  }
+
+  async function createMarket(modelId: string): Promise<bigint> {
+    await (
+      await contract
+        .connect(signers.deployer)
+        .createMarket(modelId, marketConfig)
+    ).wait();
+    return contract.marketIdByModel(ethers.id(modelId));
+  }
+
+  async function openBatch(marketId: bigint): Promise<bigint> {
+    await (await contract.connect(signers.deployer).openBatch(marketId)).wait();
+    return (await contract.markets(marketId)).currentBatchId;
+  }
+
+  // Uploads a 10-sample test set on which the model gets 7 right: an actual score of 70.
+  async function uploadTestSet(batchId: bigint) {
+    const labels = [1, 2, 3, 4, 5, 6, 7, 8, 9, 0];
+    const outputs = [1, 2, 3, 4, 5, 6, 7, 0, 0, 9];
+    const input = fhevm.createEncryptedInput(
+      contractAddress,
+      signers.deployer.address,
+    );
+    [...labels, ...outputs].forEach((value) => input.add8(value));
+    const { handles, inputProof } = await input.encrypt();
+
+    await (
+      await contract
+        .connect(signers.deployer)
+        .uploadTestSet(
+          batchId,
+          handles.slice(0, labels.length),
+          handles.slice(labels.length),
+          inputProof,
+        )
+    ).wait();
+  }
+
+  async function passChallengeWindow() {
+    await time.increase(Number(await contract.challengePeriod()) + 1);
+  }
+
+  // Opens a batch, lets alice (distance 2, wins) and bob (distance 30, loses) predict, closes it
+  // and uploads the test set.
+  async function closedBatchWithPredictions(): Promise<bigint> {
+    const marketId = await createMarket("gpt-eval-1");
+    const batchId = await openBatch(marketId);
+    await submit(signers.alice, batchId, 72);
+    await submit(signers.bob, batchId, 40);
+    await (
+      await contract.connect(signers.deployer).closeBatch(marketId)
+    ).wait();
+    await uploadTestSet(batchId);
+    return batchId;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+
+    await (
+      await contract
+        .connect(signers.deployer)
+        .grantRole(await contract.EVALUATOR_ROLE(), signers.deployer)
+    ).wait();
+  });
+
+  it("counts winners homomorphically and records the decrypted result", async function () {
+    const batchId = await closedBatchWithPredictions();
+    const requestId = await requestEvaluation(batchId);
+
+    await fhevm.awaitDecryptionOracle();
+
+    const context = await contract.decryptionContexts(requestId);
+    expect(context.processed).to.eq(true);
+
+    const batch = await contract.batches(batchId);
+    expect(batch.evaluated).to.eq(true);
+    expect(batch.actualScore).to.eq(70);
+    expect(batch.winnerCount).to.eq(1);
+    expect(batch.winningStake).to.eq(STAKE);
+  });
+
+  it("persists the handles sent for decryption", async function () {
+    const batchId = await closedBatchWithPredictions();
+    const requestId = await requestEvaluation(batchId);
+
+    const handles = await contract.getDecryptionHandles(requestId);
+    const batch = await contract.batches(batchId);
+    expect(handles).to.deep.eq([
+      batch.encryptedActualScore,
+      batch.encryptedWinnerCount,
+      batch.encryptedWinningStake,
+      batch.encryptedTotalStake,
+    ]);
+  });
+
+  it("rejects callbacks that do not come from the decryption oracle", async function () {
+    const batchId = await closedBatchWithPredictions();
+    const requestId = await requestEvaluation(batchId);
+
+    await expect(
+      contract
+        .connect(signers.alice)
+        .myCallback.staticCall(requestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(contract, "NotDecryptionOracle");
+    await expect(
+      contract
+        .connect(signers.alice)
+        .claimCallback.staticCall(requestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(contract, "NotDecryptionOracle");
+  });
+
+  it("rejects a replayed callback", async function () {
+    const batchId = await closedBatchWithPredictions();
+    const requestId = await requestEvaluation(batchId);
+
+    await fhevm.awaitDecryptionOracle();
+
+    const oracle = await impersonateOracle();
+    await expect(
+      contract.connect(oracle).myCallback.staticCall(requestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+  });
+
+  it("rejects a callback for a request superseded by a re-evaluation", async function () {
+    const batchId = await closedBatchWithPredictions();
+    const staleRequestId = await requestEvaluation(batchId);
+
+    await time.increase(Number(await contract.cooldownSeconds()));
+    await requestEvaluation(batchId);
+
+    const oracle = await impersonateOracle();
+    await expect(
+      contract
+        .connect(oracle)
+        .myCallback.staticCall(staleRequestId, "0x", "0x"),
+    ).to.be.revertedWithCustomError(contract, "StateMismatch");
+
+    // Drain the mock oracle so the stale request is not delivered during a later test
+    const staleDelivery = await fhevm.awaitDecryptionOracle().then(
+      () => "delivered",
+      () => "reverted",
+    );
+    expect(staleDelivery).to.eq("reverted");
+  });
+
+  it("rejects a callback for an unknown request", async function () {
+    const oracle = await impersonateOracle();
+    await expect(
+      contract.connect(oracle).myCallback.staticCall(12345, "0x", "0x"),
+    ).to.be.revertedWithCustomError(contract, "StateMismatch");
+  });
+
+  it("lets predictors decrypt their own prediction", async function () {
+    const marketId = await createMarket("gpt-eval-1");
+    const batchId = await openBatch(marketId);
+    await submit(signers.alice, batchId, 72);
+
+    const { encryptedScore } = await contract.predictions(
+      batchId,
+      signers.alice.address,
+    );
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedScore,
+        contractAddress,
+        signers.alice,
+      ),
+    ).to.eq(72);
+
+    const outsider = await fhevm
+      .userDecryptEuint(
+        FhevmType.euint32,
+        encryptedScore,
+        contractAddress,
+        signers.bob,
+      )
+      .then(
+        () => "decrypted",
+        () => "denied",
+      );
+    expect(outsider).to.eq("denied");
+  });
+
+  describe("predictions", function () {
+    it("rejects predictions on a closed batch", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+
+      await expect(
+        submit(signers.alice, batchId, 72),
+      ).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+      await expect(
+        contract.connect(signers.deployer).closeBatch.staticCall(marketId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotOpen");
+    });
+
+    it("rejects a raw handle the sender has no access to", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await submit(signers.alice, batchId, 72);
+      const { encryptedScore } = await contract.predictions(
+        batchId,
+        signers.alice,
+      );
+
+      await expect(
+        contract
+          .connect(signers.bob)
+          [
+            "submitPrediction(uint256,bytes32,uint256)"
+          ].staticCall(batchId, encryptedScore, STAKE, { value: STAKE }),
+      ).to.be.revertedWithCustomError(contract, "UnauthorizedCiphertext");
+    });
+  });
+
+  describe("claims", function () {
+    async function evaluate(batchId: bigint) {
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+    }
+
+    it("refunds every stake when nobody wins", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await submit(signers.alice, batchId, 10);
+      await submit(signers.bob, batchId, 40, STAKE * 2n);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await evaluate(batchId);
+      expect((await contract.batches(batchId)).winnerCount).to.eq(0);
+
+      const refund = contract.connect(signers.bob).claimReward(batchId);
+      await expect(refund)
+        .to.emit(contract, "RefundIssued")
+        .withArgs(batchId, signers.bob.address, STAKE * 2n);
+      await expect(refund).to.changeEtherBalance(signers.bob, STAKE * 2n);
+      await expect(
+        contract.connect(signers.alice).claimReward(batchId),
+      ).to.changeEtherBalance(signers.alice, STAKE);
+    });
+
+    it("refunds the pot when only a zero stake predicted right", async function () {
+      await (
+        await contract
+          .connect(signers.deployer)
+          .createMarket("gpt-eval-free", { ...marketConfig, minStake: 0 })
+      ).wait();
+      const marketId = await contract.marketIdByModel(
+        ethers.id("gpt-eval-free"),
+      );
+      const batchId = await openBatch(marketId);
+      await submit(signers.alice, batchId, 72, 0n);
+      await submit(signers.bob, batchId, 40);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await evaluate(batchId);
+
+      const batch = await contract.batches(batchId);
+      expect(batch.winnerCount).to.eq(0);
+      expect(batch.winningStake).to.eq(0);
+
+      await expect(
+        contract.connect(signers.alice).claimReward(batchId),
+      ).to.changeEtherBalance(signers.alice, 0);
+      await expect(
+        contract.connect(signers.bob).claimReward(batchId),
+      ).to.changeEtherBalance(signers.bob, STAKE);
+    });
+
+    it("rejects early, foreign and repeated claims", async function () {
+      const batchId = await closedBatchWithPredictions();
+      await expect(
+        contract.connect(signers.alice).claimReward.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotEvaluated");
+
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+      await expect(
+        contract.connect(signers.carol).claimReward.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "NoPrediction");
+
+      const tx = await contract.connect(signers.alice).claimReward(batchId);
+      const receipt = await tx.wait();
+      const requestId = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ClaimRequested")!.args.requestId;
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.connect(signers.alice).claimReward.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "AlreadyClaimed");
+      const oracle = await impersonateOracle();
+      await expect(
+        contract
+          .connect(oracle)
+          .claimCallback.staticCall(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+    });
+
+    it("reverts a payout the predictor cannot receive", async function () {
+      // A contract without a receive function, e.g. a bare implementation
+      const rejecting = await deployImplementation();
+      const rejectingAddress = await rejecting.getAddress();
+      await impersonateAccount(rejectingAddress);
+      await setBalance(rejectingAddress, ethers.parseEther("10"));
+      const predictor = await ethers.getSigner(rejectingAddress);
+
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await submit(predictor, batchId, 10);
+      await submit(signers.bob, batchId, 40);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await evaluate(batchId);
+
+      await expect(
+        contract.connect(predictor).claimReward.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "TransferFailed");
+    });
+  });
+
+  describe("roles", function () {
+    it("transfers ownership in two steps and moves the admin role", async function () {
+      const adminRole = await contract.ADMIN_ROLE();
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .transferOwnership(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(contract, "InvalidAccount");
+
+      await expect(
+        contract.connect(signers.deployer).transferOwnership(signers.alice),
+      )
+        .to.emit(contract, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+
+      await expect(
+        contract.connect(signers.bob).acceptOwnership(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+      await expect(contract.connect(signers.alice).acceptOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await contract.owner()).to.eq(signers.alice.address);
+      expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await contract.hasRole(adminRole, signers.alice)).to.eq(true);
+      expect(await contract.hasRole(adminRole, signers.deployer)).to.eq(false);
+    });
+
+    it("lets admins split duties across roles", async function () {
+      const pauserRole = await contract.PAUSER_ROLE();
+      await expect(contract.connect(signers.alice).setPaused(true))
+        .to.be.revertedWithCustomError(contract, "MissingRole")
+        .withArgs(pauserRole, signers.alice.address);
+
+      await expect(
+        contract.connect(signers.deployer).grantRole(pauserRole, signers.alice),
+      )
+        .to.emit(contract, "RoleGranted")
+        .withArgs(pauserRole, signers.alice.address, signers.deployer.address);
+      await (await contract.connect(signers.alice).setPaused(true)).wait();
+      expect(await contract.paused()).to.eq(true);
+
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .revokeRole(pauserRole, signers.alice),
+      )
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(pauserRole, signers.alice.address, signers.deployer.address);
+      await expect(
+        contract.connect(signers.alice).setPaused(false),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+    });
+
+    it("only lets admins manage roles", async function () {
+      await expect(
+        contract
+          .connect(signers.alice)
+          .grantRole.staticCall(await contract.TREASURER_ROLE(), signers.alice),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+    });
+  });
+
+  describe("markets", function () {
+    it("runs batches for several models in parallel", async function () {
+      const nlpMarket = await createMarket("llm-a");
+      const cvMarket = await createMarket("vision-b");
+
+      const nlpBatch = await openBatch(nlpMarket);
+      const cvBatch = await openBatch(cvMarket);
+      expect(nlpBatch).to.not.eq(cvBatch);
+
+      await (
+        await contract.connect(signers.deployer).closeBatch(nlpMarket)
+      ).wait();
+
+      expect((await contract.batches(nlpBatch)).isOpen).to.eq(false);
+      expect((await contract.batches(cvBatch)).isOpen).to.eq(true);
+      expect((await contract.batches(cvBatch)).marketId).to.eq(cvMarket);
+    });
+
+    it("rejects a second market for the same model", async function () {
+      await createMarket("llm-a");
+      await expect(
+        contract.connect(signers.deployer).createMarket("llm-a", marketConfig),
+      ).to.be.revertedWithCustomError(contract, "MarketExists");
+    });
+
+    it("only lets one batch per market be open at a time", async function () {
+      const marketId = await createMarket("llm-a");
+      await openBatch(marketId);
+      await expect(
+        contract.connect(signers.deployer).openBatch(marketId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotClosed");
+    });
+
+    it("enforces the market's stake bounds", async function () {
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+
+      await expect(
+        submit(signers.alice, batchId, 10, ethers.parseEther("0.01")),
+      ).to.be.revertedWithCustomError(contract, "StakeOutOfRange");
+      await expect(
+        submit(signers.bob, batchId, 10, ethers.parseEther("6")),
+      ).to.be.revertedWithCustomError(contract, "StakeOutOfRange");
+    });
+
+    it("lists only active markets", async function () {
+      const first = await createMarket("llm-a");
+      const second = await createMarket("vision-b");
+      await (
+        await contract.connect(signers.deployer).setMarketActive(first, false)
+      ).wait();
+
+      expect(await contract.getActiveMarkets()).to.deep.eq([second]);
+      await expect(
+        contract.connect(signers.deployer).openBatch(first),
+      ).to.be.revertedWithCustomError(contract, "MarketInactive");
+    });
+
+    it("restricts batch operations to the market's provider", async function () {
+      const marketId = await createMarket("llm-a");
+      await (
+        await contract
+          .connect(signers.deployer)
+          .grantRole(await contract.BATCH_OPERATOR_ROLE(), signers.alice)
+      ).wait();
+
+      await expect(
+        contract.connect(signers.alice).openBatch(marketId),
+      ).to.be.revertedWithCustomError(contract, "NotMarketProvider");
+    });
+  });
+
+  describe("deadlines", function () {
+    it("rejects predictions after the submission deadline", async function () {
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+
+      await time.increase(marketConfig.submissionPeriod + 1);
+
+      await expect(
+        submit(signers.alice, batchId, 10),
+      ).to.be.revertedWithCustomError(contract, "SubmissionDeadlinePassed");
+    });
+
+    it("lets anyone close an expired batch for the keeper bounty", async function () {
+      const bounty = ethers.parseEther("0.01");
+      await (
+        await contract.connect(signers.deployer).setKeeperBounty(bounty)
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      await (
+        await contract
+          .connect(signers.deployer)
+          .openBatch(marketId, { value: bounty })
+      ).wait();
+      const batchId = (await contract.markets(marketId)).currentBatchId;
+
+      await expect(
+        contract.connect(signers.bob).closeExpiredBatch(batchId),
+      ).to.be.revertedWithCustomError(contract, "DeadlineNotReached");
+
+      await time.increase(marketConfig.submissionPeriod + 1);
+
+      await expect(
+        contract.connect(signers.bob).closeExpiredBatch(batchId),
+      ).to.changeEtherBalances([signers.bob, contract], [bounty, -bounty]);
+      expect((await contract.batches(batchId)).isOpen).to.eq(false);
+    });
+
+    it("requires the provider to escrow the keeper bounty", async function () {
+      await (
+        await contract
+          .connect(signers.deployer)
+          .setKeeperBounty(ethers.parseEther("0.01"))
+      ).wait();
+      const marketId = await createMarket("llm-a");
+
+      await expect(
+        contract.connect(signers.deployer).openBatch(marketId),
+      ).to.be.revertedWithCustomError(contract, "InvalidBounty");
+    });
+  });
+
+  describe("confidential stakes", function () {
+    async function submitConfidential(
+      signer: HardhatEthersSigner,
+      batchId: bigint,
+      score: number,
+      stake: bigint,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(score)
+        .add64(stake / GWEI)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .submitConfidentialPrediction(
+            batchId,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+          )
+      ).wait();
+    }
+
+    // In wei, to compare with plain amounts
+    async function balanceOf(signer: HardhatEthersSigner): Promise<bigint> {
+      const balance = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await contract.confidentialBalanceOf(signer.address),
+        contractAddress,
+        signer,
+      );
+      return balance * GWEI;
+    }
+
+    it("debits the stake from the encrypted balance without revealing it", async function () {
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("2") })
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+
+      await submitConfidential(signers.alice, batchId, 72, STAKE);
+
+      const prediction = await contract.predictions(batchId, signers.alice);
+      expect(prediction.amount).to.eq(0);
+      expect(prediction.confidential).to.eq(true);
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("1"));
+    });
+
+    it("turns an unaffordable stake into a zero stake", async function () {
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("0.5") })
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+
+      await submitConfidential(signers.alice, batchId, 72, STAKE);
+
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("0.5"));
+    });
+
+    it("does not let a stake turned to zero win", async function () {
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("0.5") })
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      await submitConfidential(signers.alice, batchId, 72, STAKE);
+      await submit(signers.bob, batchId, 40);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+
+      expect((await contract.batches(batchId)).winnerCount).to.eq(0);
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("0.5"));
+      await expect(
+        contract.connect(signers.bob).claimReward(batchId),
+      ).to.changeEtherBalance(signers.bob, STAKE);
+    });
+
+    it("reveals the total only on evaluation and credits winners confidentially", async function () {
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("2") })
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      await submitConfidential(signers.alice, batchId, 72, STAKE);
+      await submit(signers.bob, batchId, 40);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+
+      expect((await contract.batches(batchId)).totalStaked).to.eq(0);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const batch = await contract.batches(batchId);
+      expect(batch.totalStaked).to.eq(STAKE * 2n);
+      expect(batch.winningStake).to.eq(STAKE);
+
+      await passChallengeWindow();
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("3"));
+
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(ethers.parseEther("3") / GWEI)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .withdraw(input.handles[0], input.inputProof)
+      ).wait();
+      const before = await ethers.provider.getBalance(signers.alice);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await ethers.provider.getBalance(signers.alice)).to.eq(
+        before + ethers.parseEther("3"),
+      );
+      expect(await balanceOf(signers.alice)).to.eq(0);
+    });
+
+    it("holds balances beyond 2^64 wei", async function () {
+      await expect(
+        contract.connect(signers.alice).deposit.staticCall({ value: 1n }),
+      ).to.be.revertedWithCustomError(contract, "InvalidDeposit");
+
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("20") })
+      ).wait();
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("20"));
+
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      const stake = ethers.parseEther("5");
+      await submitConfidential(signers.alice, batchId, 72, stake);
+      await submit(signers.bob, batchId, 40, stake);
+      await submit(signers.carol, batchId, 10, stake);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      expect(await balanceOf(signers.alice)).to.eq(ethers.parseEther("30"));
+    });
+
+    it("pays confidential stakes out of a pot near maxStake in full", async function () {
+      const stake = ethers.parseEther("18");
+      const otherStake = ethers.parseEther("5");
+      const pot = stake + otherStake;
+      await (
+        await contract
+          .connect(signers.deployer)
+          .createMarket("llm-large", { ...marketConfig, maxStake: stake })
+      ).wait();
+      const marketId = await contract.marketIdByModel(ethers.id("llm-large"));
+      await (
+        await contract.connect(signers.alice).deposit({ value: stake * 2n })
+      ).wait();
+
+      async function settle(aliceScore: number): Promise<bigint> {
+        const batchId = await openBatch(marketId);
+        await submitConfidential(signers.alice, batchId, aliceScore, stake);
+        await submit(signers.bob, batchId, 40, otherStake);
+        await (
+          await contract.connect(signers.deployer).closeBatch(marketId)
+        ).wait();
+        await uploadTestSet(batchId);
+        await requestEvaluation(batchId);
+        await fhevm.awaitDecryptionOracle();
+        await passChallengeWindow();
+        await (
+          await contract.connect(signers.alice).claimReward(batchId)
+        ).wait();
+        return batchId;
+      }
+
+      // stake * pot in wei is past 2^128
+      await settle(72);
+      expect(await balanceOf(signers.alice)).to.eq(stake + pot);
+
+      // Nobody wins: the refund bears its share of the fee
+      await (await contract.connect(signers.deployer).setFee(500)).wait();
+      const batchId = await settle(10);
+      const [, fee] = await contract.getBatchPot(batchId);
+      expect(fee).to.be.gt(0);
+      expect(await balanceOf(signers.alice)).to.eq(
+        pot + (stake * (pot - fee)) / pot,
+      );
+    });
+  });
+
+  describe("signed intents", function () {
+    const DAY = 24 * 60 * 60;
+
+    // The predictor encrypts for the relayer, which is the caller the input proof is checked against
+    async function signIntent(
+      predictor: HardhatEthersSigner,
+      relayer: HardhatEthersSigner,
+      batchId: bigint,
+      score: number,
+      stake: bigint,
+      deadline: number,
+      signer: HardhatEthersSigner = predictor,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, relayer.address)
+        .add32(score)
+        .add64(stake / GWEI)
+        .encrypt();
+      const signature = await signer.signTypedData(
+        {
+          name: "AIPredictMarketFHE",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: contractAddress,
+        },
+        {
+          PredictionIntent: [
+            { name: "predictor", type: "address" },
+            { name: "batchId", type: "uint256" },
+            { name: "encryptedScore", type: "bytes32" },
+            { name: "encryptedStake", type: "bytes32" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          predictor: predictor.address,
+          batchId,
+          encryptedScore: input.handles[0],
+          encryptedStake: input.handles[1],
+          nonce: await contract.nonces(predictor),
+          deadline,
+        },
+      );
+      return [
+        predictor.address,
+        batchId,
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+        deadline,
+        signature,
+      ] as const;
+    }
+
+    it("lets a relayer submit a predictor's signed prediction", async function () {
+      await (
+        await contract
+          .connect(signers.alice)
+          .deposit({ value: ethers.parseEther("2") })
+      ).wait();
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      const relayer = signers.carol;
+      const args = await signIntent(
+        signers.alice,
+        relayer,
+        batchId,
+        72,
+        STAKE,
+        (await time.latest()) + DAY,
+      );
+
+      await expect(contract.connect(relayer).submitPredictionWithSig(...args))
+        .to.emit(contract, "PredictionIntentExecuted")
+        .withArgs(signers.alice.address, relayer.address, 0);
+
+      const prediction = await contract.predictions(batchId, signers.alice);
+      expect(prediction.predictor).to.eq(signers.alice.address);
+      expect(prediction.confidential).to.eq(true);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await contract.confidentialBalanceOf(signers.alice),
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(ethers.parseEther("1") / GWEI);
+      expect(await contract.nonces(signers.alice)).to.eq(1);
+
+      // The cooldown is the predictor's, and the intent cannot be replayed
+      const [submission] = await contract.cooldownRemaining(signers.alice);
+      expect(submission).to.be.greaterThan(0);
+      expect(await contract.lastSubmissionTime(relayer)).to.eq(0);
+      await expect(
+        contract.connect(relayer).submitPredictionWithSig.staticCall(...args),
+      ).to.be.revertedWithCustomError(contract, "InvalidSignature");
+    });
+
+    it("rejects expired and forged intents", async function () {
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      const relayer = signers.carol;
+
+      const expired = await signIntent(
+        signers.alice,
+        relayer,
+        batchId,
+        72,
+        STAKE,
+        await time.latest(),
+      );
+      await time.increase(1);
+      await expect(
+        contract
+          .connect(relayer)
+          .submitPredictionWithSig.staticCall(...expired),
+      ).to.be.revertedWithCustomError(contract, "IntentExpired");
+
+      const forged = await signIntent(
+        signers.alice,
+        relayer,
+        batchId,
+        72,
+        STAKE,
+        (await time.latest()) + DAY,
+        signers.bob,
+      );
+      await expect(
+        contract.connect(relayer).submitPredictionWithSig.staticCall(...forged),
+      ).to.be.revertedWithCustomError(contract, "InvalidSignature");
+    });
+  });
+
+  describe("test-set evaluation", function () {
+    it("accumulates the encrypted accuracy across uploads", async function () {
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      await uploadTestSet(batchId);
+      await uploadTestSet(batchId);
+
+      const evaluation = await contract.testSetEvaluations(batchId);
+      expect(evaluation.sampleCount).to.eq(20);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          evaluation.correctCount,
+        ),
+      ).to.eq(14);
+    });
+
+    it("refuses to evaluate a batch without a test set", async function () {
+      const marketId = await createMarket("llm-a");
+      await openBatch(marketId);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .requestBatchEvaluation(
+            (await contract.markets(marketId)).currentBatchId,
+          ),
+      ).to.be.revertedWithCustomError(contract, "TestSetMissing");
+    });
+
+    it("only accepts uploads from evaluators", async function () {
+      const marketId = await createMarket("llm-a");
+      const batchId = await openBatch(marketId);
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add8(1)
+        .add8(1)
+        .encrypt();
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .uploadTestSet(
+            batchId,
+            [input.handles[0]],
+            [input.handles[1]],
+            input.inputProof,
+          ),
+      ).to.be.revertedWithCustomError(contract, "NotEvaluator");
+    });
+
+    it("rejects uploads for a batch that does not exist", async function () {
+      await expect(uploadTestSet(42n)).to.be.revertedWithCustomError(
+        contract,
+        "BatchNotFound",
+      );
+    });
+  });
+
+  describe("disputes", function () {
+    beforeEach(async function () {
+      await (
+        await contract
+          .connect(signers.deployer)
+          .grantRole(await contract.ARBITRATOR_ROLE(), signers.carol)
+      ).wait();
+    });
+
+    async function evaluatedBatch(): Promise<bigint> {
+      const batchId = await closedBatchWithPredictions();
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      return batchId;
+    }
+
+    it("locks claims until the challenge window has passed", async function () {
+      const batchId = await evaluatedBatch();
+
+      await expect(
+        contract.connect(signers.bob).claimReward(batchId),
+      ).to.be.revertedWithCustomError(contract, "ChallengeWindowActive");
+
+      await passChallengeWindow();
+      await expect(contract.connect(signers.bob).claimReward(batchId)).to.emit(
+        contract,
+        "ClaimRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("freezes claims while a dispute is open and slashes a rejected bond", async function () {
+      const batchId = await evaluatedBatch();
+      await expect(
+        contract.connect(signers.bob).disputeResult(batchId, { value: BOND }),
+      )
+        .to.emit(contract, "ResultDisputed")
+        .withArgs(batchId, signers.bob.address, BOND);
+
+      await passChallengeWindow();
+      await expect(
+        contract.connect(signers.alice).claimReward(batchId),
+      ).to.be.revertedWithCustomError(contract, "DisputeOpen");
+
+      await expect(
+        contract.connect(signers.carol).resolveDispute(batchId, false),
+      ).to.changeEtherBalances([contract, signers.deployer], [-BOND, BOND]);
+      expect((await contract.batches(batchId)).evaluated).to.eq(true);
+
+      await expect(
+        contract.connect(signers.alice).claimReward(batchId),
+      ).to.emit(contract, "ClaimRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("voids the evaluation and returns the bond when a dispute is upheld", async function () {
+      const batchId = await evaluatedBatch();
+      await (
+        await contract
+          .connect(signers.bob)
+          .disputeResult(batchId, { value: BOND })
+      ).wait();
+
+      await expect(
+        contract.connect(signers.carol).resolveDispute(batchId, true),
+      ).to.changeEtherBalances([contract, signers.bob], [-BOND, BOND]);
+
+      const batch = await contract.batches(batchId);
+      expect(batch.evaluated).to.eq(false);
+      expect((await contract.testSetEvaluations(batchId)).sampleCount).to.eq(0);
+
+      await uploadTestSet(batchId);
+      await time.increase(Number(await contract.cooldownSeconds()));
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.batches(batchId)).evaluated).to.eq(true);
+    });
+
+    it("rejects disputes outside the window or with the wrong bond", async function () {
+      const batchId = await evaluatedBatch();
+
+      await expect(
+        contract.connect(signers.bob).disputeResult(batchId, { value: 1n }),
+      ).to.be.revertedWithCustomError(contract, "InvalidBond");
+      await expect(
+        contract.connect(signers.bob).resolveDispute.staticCall(batchId, true),
+      ).to.be.revertedWithCustomError(contract, "NotArbitrator");
+
+      await passChallengeWindow();
+      await expect(
+        contract.connect(signers.bob).disputeResult(batchId, { value: BOND }),
+      ).to.be.revertedWithCustomError(contract, "ChallengeWindowClosed");
+    });
+
+    it("lets anyone dismiss a dispute left unresolved", async function () {
+      const batchId = await evaluatedBatch();
+      await (
+        await contract
+          .connect(signers.bob)
+          .disputeResult(batchId, { value: BOND })
+      ).wait();
+      await expect(
+        contract.connect(signers.alice).dismissDispute.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "ResolutionPeriodActive");
+
+      await time.increase(Number(await contract.disputeResolutionPeriod()) + 1);
+      expect(await contract.getBatchStatus(batchId)).to.eq(3); // Settled
+      await expect(
+        contract
+          .connect(signers.carol)
+          .resolveDispute.staticCall(batchId, true),
+      ).to.be.revertedWithCustomError(contract, "NoOpenDispute");
+
+      const dismissal = contract.connect(signers.alice).dismissDispute(batchId);
+      await expect(dismissal)
+        .to.emit(contract, "DisputeDismissed")
+        .withArgs(batchId, BOND);
+      await expect(dismissal).to.changeEtherBalances(
+        [contract, signers.deployer],
+        [-BOND, BOND],
+      );
+      await expect(
+        contract.connect(signers.alice).dismissDispute.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "NoOpenDispute");
+      await expect(
+        contract.connect(signers.alice).claimReward(batchId),
+      ).to.emit(contract, "ClaimRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("requires a bond and gives the owner the arbitrator role", async function () {
+      expect(
+        await contract.hasRole(
+          await contract.ARBITRATOR_ROLE(),
+          signers.deployer,
+        ),
+      ).to.eq(true);
+      await expect(deployFixture({ bond: 0n })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBond",
+      );
+      await expect(
+        contract.connect(signers.deployer).setDisputeBond.staticCall(0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBond");
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .setDisputeResolutionPeriod.staticCall(0),
+      ).to.be.revertedWithCustomError(contract, "InvalidResolutionPeriod");
+    });
+  });
+
+  describe("cancellation", function () {
+    const BatchStatus = {
+      Open: 0,
+      Closed: 1,
+      EvaluationRequested: 2,
+      Settled: 3,
+      Cancelled: 4,
+      Disputed: 5,
+    };
+
+    it("tracks a batch through its lifecycle", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      expect(await contract.getBatchStatus(batchId)).to.eq(BatchStatus.Open);
+      await submit(signers.alice, batchId, 72);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      expect(await contract.getBatchStatus(batchId)).to.eq(BatchStatus.Closed);
+
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      expect(await contract.getBatchStatus(batchId)).to.eq(
+        BatchStatus.EvaluationRequested,
+      );
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.getBatchStatus(batchId)).to.eq(BatchStatus.Settled);
+
+      await (
+        await contract
+          .connect(signers.bob)
+          .disputeResult(batchId, { value: BOND })
+      ).wait();
+      expect(await contract.getBatchStatus(batchId)).to.eq(
+        BatchStatus.Disputed,
+      );
+      await expect(
+        contract.connect(signers.deployer).cancelBatch.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotCancellable");
+    });
+
+    it("refunds every predictor of a cancelled batch", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await submit(signers.alice, batchId, 72);
+      await submit(signers.bob, batchId, 40, STAKE * 2n);
+
+      await expect(
+        contract.connect(signers.alice).claimRefund.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotCancelled");
+      await expect(
+        contract.connect(signers.alice).cancelBatch.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+
+      await expect(contract.connect(signers.deployer).cancelBatch(batchId))
+        .to.emit(contract, "BatchCancelled")
+        .withArgs(batchId, signers.deployer.address);
+      expect(await contract.getBatchStatus(batchId)).to.eq(
+        BatchStatus.Cancelled,
+      );
+
+      await expect(
+        contract.connect(signers.alice).claimRefund(batchId),
+      ).to.changeEtherBalance(signers.alice, STAKE);
+      await expect(
+        contract.connect(signers.bob).claimRefund(batchId),
+      ).to.changeEtherBalance(signers.bob, STAKE * 2n);
+      await expect(
+        contract.connect(signers.alice).claimRefund.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "AlreadyClaimed");
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .requestBatchEvaluation.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "BatchIsCancelled");
+    });
+
+    it("times out an evaluation the oracle never answers", async function () {
+      const batchId = await closedBatchWithPredictions();
+      await requestEvaluation(batchId);
+
+      const { evaluationDeadline } = await contract.batches(batchId);
+      await time.increaseTo(evaluationDeadline + 1n);
+      expect(await contract.getBatchStatus(batchId)).to.eq(
+        BatchStatus.Cancelled,
+      );
+
+      const refund = contract.connect(signers.alice).claimRefund(batchId);
+      await expect(refund)
+        .to.emit(contract, "BatchEvaluationTimedOut")
+        .withArgs(batchId);
+      await expect(refund).to.changeEtherBalance(signers.alice, STAKE);
+
+      // The late answer is rejected rather than settling a refunded batch
+      const lateDelivery = await fhevm.awaitDecryptionOracle().then(
+        () => "delivered",
+        () => "reverted",
+      );
+      expect(lateDelivery).to.eq("reverted");
+      expect((await contract.batches(batchId)).evaluated).to.eq(false);
+    });
+  });
+
+  describe("chunked settlement", function () {
+    it("settles a batch in ordered chunks", async function () {
+      const predictors = (await ethers.getSigners()).slice(1, 7);
+      const scores = [72, 40, 68, 90, 75, 10]; // Actual score 70: three within tolerance
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      for (let i = 0; i < predictors.length; i++) {
+        await submit(predictors[i], batchId, scores[i]);
+      }
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+
+      await expect(
+        contract.connect(signers.deployer).settleBatchChunk(batchId, 0, 2),
+      )
+        .to.emit(contract, "BatchSettlementProgress")
+        .withArgs(batchId, 2, 6);
+      expect((await contract.batches(batchId)).settlementProgress).to.eq(2);
+
+      // Chunks must follow each other and stay within the batch
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .settleBatchChunk.staticCall(batchId, 3, 2),
+      ).to.be.revertedWithCustomError(contract, "InvalidSettlementRange");
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .settleBatchChunk.staticCall(batchId, 2, 5),
+      ).to.be.revertedWithCustomError(contract, "InvalidSettlementRange");
+      // The actual score is fixed once settlement has started
+      await expect(uploadTestSet(batchId)).to.be.revertedWithCustomError(
+        contract,
+        "SettlementStarted",
+      );
+
+      await (
+        await contract.connect(signers.deployer).settleBatchChunk(batchId, 2, 3)
+      ).wait();
+      // requestBatchEvaluation settles the remainder
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const batch = await contract.batches(batchId);
+      expect(batch.settlementProgress).to.eq(6);
+      expect(batch.winnerCount).to.eq(3);
+      expect(batch.winningStake).to.eq(STAKE * 3n);
+    });
+  });
+
+  describe("read API", function () {
+    it("lists batches page by page with their status", async function () {
+      const firstMarket = await createMarket("llm-a");
+      const secondMarket = await createMarket("llm-b");
+      const first = await openBatch(firstMarket);
+      await (
+        await contract.connect(signers.deployer).closeBatch(firstMarket)
+      ).wait();
+      await openBatch(firstMarket);
+      const third = await openBatch(secondMarket);
+
+      const [page, total] = await contract.getBatches(1, 5);
+      expect(total).to.eq(3);
+      expect(page.map((batch) => batch.batchId)).to.deep.eq([2n, third]);
+      expect(page.map((batch) => batch.marketId)).to.deep.eq([
+        firstMarket,
+        secondMarket,
+      ]);
+
+      const [firstPage] = await contract.getBatches(0, 1);
+      expect(firstPage[0].batchId).to.eq(first);
+      expect(firstPage[0].status).to.eq(1); // Closed
+      expect((await contract.getBatches(3, 10))[0]).to.deep.eq([]);
+    });
+
+    it("lists a batch's predictions and an address's history", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const firstBatch = await openBatch(marketId);
+      await submit(signers.alice, firstBatch, 72);
+      await submit(signers.bob, firstBatch, 40, STAKE * 2n);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      const secondBatch = await openBatch(marketId);
+      await time.increase(Number(await contract.cooldownSeconds()));
+      await submit(signers.alice, secondBatch, 65);
+
+      const [predictions, count] = await contract.getBatchPredictions(
+        firstBatch,
+        0,
+        10,
+      );
+      expect(count).to.eq(2);
+      expect(predictions.map((p) => [p.predictor, p.amount])).to.deep.eq([
+        [signers.alice.address, STAKE],
+        [signers.bob.address, STAKE * 2n],
+      ]);
+
+      const [history, total] = await contract.getPredictionHistory(
+        signers.alice,
+        0,
+        10,
+      );
+      expect(total).to.eq(2);
+      expect(history.map((p) => [p.batchId, p.status])).to.deep.eq([
+        [firstBatch, 1n], // Closed
+        [secondBatch, 0n], // Open
+      ]);
+    });
+
+    it("reports the remaining cooldown", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      expect(await contract.cooldownRemaining(signers.alice)).to.deep.eq([
+        0n,
+        0n,
+      ]);
+
+      await submit(signers.alice, batchId, 72);
+      await time.increase(20);
+      const [submission, decryption] = await contract.cooldownRemaining(
+        signers.alice,
+      );
+      expect(submission).to.eq((await contract.cooldownSeconds()) - 20n);
+      expect(decryption).to.eq(0);
+    });
+  });
+
+  describe("bucket markets", function () {
+    const bucketConfig = {
+      ...marketConfig,
+      marketType: MarketType.Bucket,
+      bucketBounds: [50, 70, 90],
+    };
+
+    async function createBucketMarket(): Promise<bigint> {
+      await (
+        await contract
+          .connect(signers.deployer)
+          .createMarket("llm-buckets", bucketConfig)
+      ).wait();
+      return contract.marketIdByModel(ethers.id("llm-buckets"));
+    }
+
+    async function submitBucket(
+      signer: HardhatEthersSigner,
+      batchId: bigint,
+      bucket: number,
+      stake: bigint = STAKE,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add8(bucket)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .submitBucketPrediction(
+            batchId,
+            input.handles[0],
+            input.inputProof,
+            stake,
+            { value: stake },
+          )
+      ).wait();
+    }
+
+    it("settles the winning bucket's pool parimutuel-style", async function () {
+      const marketId = await createBucketMarket();
+      const batchId = await openBatch(marketId);
+      // The actual score of 70 falls in bucket 2 (70-90)
+      await submitBucket(signers.alice, batchId, 2, STAKE);
+      await submitBucket(signers.bob, batchId, 1, STAKE * 3n);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [winningBucket, winningPool, totalPool] =
+        await contract.getBucketSettlement(batchId);
+      expect(winningBucket).to.eq(2);
+      expect(winningPool).to.eq(STAKE);
+      expect(totalPool).to.eq(STAKE * 4n);
+
+      await passChallengeWindow();
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      const before = await ethers.provider.getBalance(signers.alice);
+      await fhevm.awaitDecryptionOracle();
+      expect(await ethers.provider.getBalance(signers.alice)).to.eq(
+        before + STAKE * 4n,
+      );
+    });
+
+    it("keeps bucket indexes out of the crowd consensus", async function () {
+      const marketId = await createBucketMarket();
+      const batchId = await openBatch(marketId);
+      await submitBucket(signers.alice, batchId, 2);
+      await submitBucket(signers.bob, batchId, 1);
+      await submitBucket(signers.carol, batchId, 3);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      const requestId = await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.getDecryptionHandles(requestId)).to.have.length(4);
+      expect((await contract.batches(batchId)).consensusRevealed).to.eq(false);
+      await expect(
+        contract.getCrowdConsensus(batchId),
+      ).to.be.revertedWithCustomError(contract, "WrongMarketType");
+    });
+
+    it("maps scores to buckets", async function () {
+      const marketId = await createBucketMarket();
+      expect(await contract.getBucketBounds(marketId)).to.deep.eq([50, 70, 90]);
+      expect(await contract.bucketOf(marketId, 0)).to.eq(0);
+      expect(await contract.bucketOf(marketId, 50)).to.eq(1);
+      expect(await contract.bucketOf(marketId, 89)).to.eq(2);
+      expect(await contract.bucketOf(marketId, 100)).to.eq(3);
+    });
+
+    it("keeps score and bucket predictions apart", async function () {
+      const marketId = await createBucketMarket();
+      const batchId = await openBatch(marketId);
+
+      await expect(
+        submit(signers.alice, batchId, 70),
+      ).to.be.revertedWithCustomError(contract, "WrongMarketType");
+      await expect(
+        contract.connect(signers.deployer).updateMarketConfig(marketId, {
+          ...bucketConfig,
+          bucketBounds: [60],
+        }),
+      ).to.be.revertedWithCustomError(contract, "InvalidMarketConfig");
+      await expect(
+        contract.connect(signers.deployer).createMarket("llm-unsorted", {
+          ...bucketConfig,
+          bucketBounds: [70, 50],
+        }),
+      ).to.be.revertedWithCustomError(contract, "InvalidMarketConfig");
+    });
+  });
+
+  describe("protocol fee", function () {
+    const FEE_BPS = 500; // 5%
+
+    it("skims the fee once the result is final and pays winners from the net pot", async function () {
+      await expect(contract.connect(signers.deployer).setFee(FEE_BPS))
+        .to.emit(contract, "FeeUpdated")
+        .withArgs(0, FEE_BPS);
+      const batchId = await closedBatchWithPredictions();
+      // The rate in force when the batch opened applies
+      await (await contract.connect(signers.deployer).setFee(1000)).wait();
+
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const gross = STAKE * 2n;
+      const fee = (gross * BigInt(FEE_BPS)) / 10_000n;
+      expect(await contract.getBatchPot(batchId)).to.deep.eq([
+        gross,
+        fee,
+        gross - fee,
+      ]);
+      expect(await contract.accruedFees()).to.eq(0);
+
+      await passChallengeWindow();
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      expect(await contract.accruedFees()).to.eq(fee);
+      const before = await ethers.provider.getBalance(signers.alice);
+      await fhevm.awaitDecryptionOracle();
+      expect(await ethers.provider.getBalance(signers.alice)).to.eq(
+        before + gross - fee,
+      );
+
+      await (
+        await contract.connect(signers.deployer).setTreasury(signers.carol)
+      ).wait();
+      const treasuryBefore = await ethers.provider.getBalance(signers.carol);
+      await (await contract.connect(signers.deployer).withdrawFees()).wait();
+      expect(await ethers.provider.getBalance(signers.carol)).to.eq(
+        treasuryBefore + fee,
+      );
+      expect(await contract.accruedFees()).to.eq(0);
+    });
+
+    it("takes no fee from a result voided by a dispute", async function () {
+      await (await contract.connect(signers.deployer).setFee(FEE_BPS)).wait();
+      const batchId = await closedBatchWithPredictions();
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await (
+        await contract
+          .connect(signers.bob)
+          .disputeResult(batchId, { value: BOND })
+      ).wait();
+      await (
+        await contract.connect(signers.deployer).resolveDispute(batchId, true)
+      ).wait();
+
+      // Nobody re-evaluates the batch in time, so every stake comes back in full
+      await time.increase(marketConfig.evaluationPeriod + 1);
+      await expect(
+        contract.connect(signers.alice).claimRefund(batchId),
+      ).to.changeEtherBalance(signers.alice, STAKE);
+      await expect(
+        contract.connect(signers.bob).claimRefund(batchId),
+      ).to.changeEtherBalance(signers.bob, STAKE);
+
+      expect(await contract.accruedFees()).to.eq(0);
+      await expect(
+        contract.connect(signers.deployer).withdrawFees(),
+      ).to.changeEtherBalance(signers.deployer, 0);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0);
+    });
+
+    it("caps the fee and restricts who sets it", async function () {
+      const maxFee = await contract.MAX_FEE_BPS();
+      await expect(
+        contract.connect(signers.deployer).setFee.staticCall(maxFee + 1n),
+      ).to.be.revertedWithCustomError(contract, "FeeTooHigh");
+      await expect(
+        contract.connect(signers.alice).setFee.staticCall(FEE_BPS),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(
+        contract.connect(signers.alice).withdrawFees.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+    });
+  });
+
+  describe("reputation", function () {
+    async function decryptReputation(signer: HardhatEthersSigner) {
+      const reputation = await contract.reputations(signer.address);
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          contractAddress,
+          signer,
+        );
+      return {
+        wins: await decrypt(reputation.wins),
+        accuracy: await decrypt(reputation.accuracy),
+        settledPredictions: reputation.settledPredictions,
+      };
+    }
+
+    it("keeps an encrypted track record across batches", async function () {
+      const firstBatchId = await closedBatchWithPredictions();
+      await requestEvaluation(firstBatchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+      await (
+        await contract
+          .connect(signers.carol)
+          .recordReputations(firstBatchId, 0, 2)
+      ).wait();
+
+      const marketId = (await contract.batches(firstBatchId)).marketId;
+      const secondBatchId = await openBatch(marketId);
+      await time.increase(Number(await contract.cooldownSeconds()));
+      await submit(signers.alice, secondBatchId, 10);
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(secondBatchId);
+      await requestEvaluation(secondBatchId);
+      await fhevm.awaitDecryptionOracle();
+      // Outcomes only count once the result is final
+      await expect(
+        contract.recordReputations.staticCall(secondBatchId, 0, 1),
+      ).to.be.revertedWithCustomError(contract, "ChallengeWindowActive");
+      await passChallengeWindow();
+      await (
+        await contract
+          .connect(signers.carol)
+          .recordReputations(secondBatchId, 0, 1)
+      ).wait();
+      await expect(
+        contract.recordReputations.staticCall(secondBatchId, 0, 1),
+      ).to.be.revertedWithCustomError(contract, "InvalidSettlementRange");
+
+      expect(await decryptReputation(signers.alice)).to.deep.eq({
+        wins: 1n,
+        accuracy: 50n,
+        settledPredictions: 2n,
+      });
+      expect(await decryptReputation(signers.bob)).to.deep.eq({
+        wins: 0n,
+        accuracy: 0n,
+        settledPredictions: 1n,
+      });
+    });
+
+    it("leaves reputations alone until a batch is recorded", async function () {
+      const batchId = await closedBatchWithPredictions();
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+      await (await contract.connect(signers.alice).claimReward(batchId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(
+        (await contract.reputations(signers.alice)).settledPredictions,
+      ).to.eq(0);
+
+      await (await contract.recordReputations(batchId, 0, 1)).wait();
+      expect(
+        (await contract.reputations(signers.alice)).settledPredictions,
+      ).to.eq(1);
+      expect(
+        (await contract.reputations(signers.bob)).settledPredictions,
+      ).to.eq(0);
+      expect((await contract.batches(batchId)).reputationProgress).to.eq(1);
+
+      await (await contract.recordReputations(batchId, 1, 1)).wait();
+      expect(await decryptReputation(signers.bob)).to.deep.eq({
+        wins: 0n,
+        accuracy: 0n,
+        settledPredictions: 1n,
+      });
+    });
+
+    it("reveals a reputation only when its owner opts in", async function () {
+      const batchId = await closedBatchWithPredictions();
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      await passChallengeWindow();
+      await (await contract.recordReputations(batchId, 0, 2)).wait();
+      expect(
+        (await contract.reputations(signers.alice.address)).revealed,
+      ).to.eq(false);
+
+      await (await contract.connect(signers.alice).revealReputation()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const reputation = await contract.reputations(signers.alice.address);
+      expect(reputation.revealed).to.eq(true);
+      expect(reputation.revealedAccuracy).to.eq(100);
+      expect(reputation.revealedPredictions).to.eq(1);
+
+      await expect(
+        contract.connect(signers.carol).revealReputation.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NoReputation");
+    });
+  });
+
+  describe("crowd consensus", function () {
+    // Opens a batch, submits the given scores from one account each (alice, bob, carol, then
+    // further signers) and evaluates it against an actual score of 70.
+    async function evaluateWithScores(scores: number[]): Promise<bigint> {
+      const predictors = (await ethers.getSigners()).slice(
+        1,
+        1 + scores.length,
+      );
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      for (const [i, score] of scores.entries()) {
+        await submit(predictors[i], batchId, score);
+      }
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      return batchId;
+    }
+
+    it("reveals the mean prediction next to the actual score", async function () {
+      const batchId = await evaluateWithScores([72, 40, 68, 80, 95]);
+
+      // (72 + 40 + 68 + 80 + 95) / 5, in hundredths
+      const consensus = await contract.getCrowdConsensus(batchId);
+      expect(consensus.revealed).to.eq(true);
+      expect(consensus.meanScore).to.eq(7100);
+      expect(consensus.actualScore).to.eq(70);
+      const { evaluationRequestId } = await contract.batches(batchId);
+      expect(
+        await contract.getDecryptionHandles(evaluationRequestId),
+      ).to.have.length(5);
+    });
+
+    it("counts an out-of-range prediction as 100", async function () {
+      const batchId = await evaluateWithScores([72, 40, 68, 80, 2 ** 32 - 1]);
+
+      // (72 + 40 + 68 + 80 + 100) / 5
+      expect((await contract.getCrowdConsensus(batchId)).meanScore).to.eq(7200);
+    });
+
+    it("keeps the sum encrypted when it would expose a prediction", async function () {
+      const batchId = await closedBatchWithPredictions();
+      await expect(
+        contract.getCrowdConsensus(batchId),
+      ).to.be.revertedWithCustomError(contract, "BatchNotEvaluated");
+
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      const consensus = await contract.getCrowdConsensus(batchId);
+      expect(consensus.revealed).to.eq(false);
+      expect(consensus.meanScore).to.eq(0);
+      expect(consensus.actualScore).to.eq(70);
+    });
+
+    it("needs five predictions to reveal the sum", async function () {
+      const batchId = await evaluateWithScores([72, 40, 68, 80]);
+      expect((await contract.getCrowdConsensus(batchId)).revealed).to.eq(false);
+    });
+  });
+
+  describe("upgrades", function () {
+    async function proxyAdmin() {
+      const admin = ethers.getAddress(
+        "0x" +
+          (await ethers.provider.getStorage(contractAddress, ADMIN_SLOT)).slice(
+            26,
+          ),
+      );
+      return ProxyAdmin__factory.connect(admin, signers.deployer);
+    }
+
+    it("keeps batches and predictions across an upgrade", async function () {
+      const marketId = await createMarket("gpt-eval-1");
+      const batchId = await openBatch(marketId);
+      await submit(signers.alice, batchId, 72);
+
+      const upgraded = await deployImplementation();
+      await (
+        await (
+          await proxyAdmin()
+        ).upgradeAndCall(contractAddress, await upgraded.getAddress(), "0x")
+      ).wait();
+
+      const prediction = await contract.predictions(
+        batchId,
+        signers.alice.address,
+      );
+      expect(prediction.amount).to.eq(STAKE);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          prediction.encryptedScore,
+          contractAddress,
+          signers.alice,
+        ),
+      ).to.eq(72);
+      expect((await contract.batches(batchId)).submissionCount).to.eq(1);
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+
+      // The upgraded logic keeps computing on the stored ciphertexts
+      await (
+        await contract.connect(signers.deployer).closeBatch(marketId)
+      ).wait();
+      await uploadTestSet(batchId);
+      await requestEvaluation(batchId);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.batches(batchId)).winnerCount).to.eq(1);
+    });
+
+    it("can only be initialized once, and only through the proxy", async function () {
+      const { implementation } = await deployFixture();
+      await expect(
+        contract.initialize.staticCall(signers.alice, signers.alice, BOND),
+      ).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+      await expect(
+        implementation.initialize.staticCall(
+          signers.alice,
+          signers.alice,
+          BOND,
+        ),
+      ).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+    });
+
+    it("takes the decryption oracle at initialization", async function () {
+      const { relayerSignerAddress } = await fhevm.getRelayerMetadata();
+      expect(await contract.decryptionOracle()).to.eq(relayerSignerAddress);
+      await expect(
+        deployFixture({ oracle: ethers.ZeroAddress }),
+      ).to.be.revertedWithCustomError(contract, "InvalidAccount");
+      await expect(
+        contract
+          .connect(signers.deployer)
+          .setDecryptionOracle.staticCall(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(contract, "InvalidAccount");
+    });
+
+    it("only lets the proxy admin owner upgrade", async function () {
+      const admin = await proxyAdmin();
+      expect(await admin.owner()).to.eq(signers.deployer.address);
+      await expect(
+        admin
+          .connect(signers.alice)
+          .upgradeAndCall.staticCall(contractAddress, contractAddress, "0x"),
+      ).to.be.revertedWithCustomError(admin, "OwnableUnauthorizedAccount");
+    });
+
+    it("only appends to the deployed storage layout", async function () {
+      const layout = await readStorageLayout();
+      if (process.env.UPDATE_STORAGE_LAYOUT) {
+        fs.writeFileSync(
+          STORAGE_LAYOUT_FILE,
+          JSON.stringify(layout, null, 2) + "\n",
+        );
+      }
+      const deployed: StorageLayout = JSON.parse(
+        fs.readFileSync(STORAGE_LAYOUT_FILE, "utf8"),
+      );
+
+      // Existing variables keep their slot, offset and type; new ones go after them
+      expect(layout.storage.slice(0, deployed.storage.length)).to.deep.eq(
+        deployed.storage,
+      );
+      // Structs live in mappings, so they may grow, but only at the end
+      for (const [id, members] of Object.entries(deployed.structs)) {
+        expect(layout.structs[id], id).to.not.eq(undefined);
+        expect(layout.structs[id].slice(0, members.length), id).to.deep.eq(
+          members,
+        );
+      }
+    });
+  });
+});
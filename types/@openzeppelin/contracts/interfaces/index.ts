@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as ierc7913Sol from "./IERC7913.sol";
+export type { ierc7913Sol };
+export type { IERC1271 } from "./IERC1271";
+export type { IERC1967 } from "./IERC1967";
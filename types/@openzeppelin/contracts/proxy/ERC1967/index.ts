@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC1967Proxy } from "./ERC1967Proxy";
+export type { ERC1967Utils } from "./ERC1967Utils";
@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as erc1967 from "./ERC1967";
+export type { erc1967 };
+import type * as beacon from "./beacon";
+export type { beacon };
+import type * as transparent from "./transparent";
+export type { transparent };
+export type { Proxy } from "./Proxy";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ITransparentUpgradeableProxy } from "./ITransparentUpgradeableProxy";
+export type { TransparentUpgradeableProxy } from "./TransparentUpgradeableProxy";
@@ -0,0 +1,3819 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace AIPredictMarketFHE {
+  export type MarketConfigStruct = {
+    category: string;
+    marketType: BigNumberish;
+    bucketBounds: BigNumberish[];
+    tolerance: BigNumberish;
+    minStake: BigNumberish;
+    maxStake: BigNumberish;
+    submissionPeriod: BigNumberish;
+    evaluationPeriod: BigNumberish;
+  };
+
+  export type MarketConfigStructOutput = [
+    category: string,
+    marketType: bigint,
+    bucketBounds: bigint[],
+    tolerance: bigint,
+    minStake: bigint,
+    maxStake: bigint,
+    submissionPeriod: bigint,
+    evaluationPeriod: bigint
+  ] & {
+    category: string;
+    marketType: bigint;
+    bucketBounds: bigint[];
+    tolerance: bigint;
+    minStake: bigint;
+    maxStake: bigint;
+    submissionPeriod: bigint;
+    evaluationPeriod: bigint;
+  };
+
+  export type PredictionSummaryStruct = {
+    batchId: BigNumberish;
+    predictor: AddressLike;
+    amount: BigNumberish;
+    confidential: boolean;
+    claimed: boolean;
+    status: BigNumberish;
+  };
+
+  export type PredictionSummaryStructOutput = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint,
+    confidential: boolean,
+    claimed: boolean,
+    status: bigint
+  ] & {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+    confidential: boolean;
+    claimed: boolean;
+    status: bigint;
+  };
+
+  export type BatchSummaryStruct = {
+    batchId: BigNumberish;
+    marketId: BigNumberish;
+    status: BigNumberish;
+    submissionCount: BigNumberish;
+    submissionDeadline: BigNumberish;
+    evaluationDeadline: BigNumberish;
+    actualScore: BigNumberish;
+    winnerCount: BigNumberish;
+    totalStaked: BigNumberish;
+  };
+
+  export type BatchSummaryStructOutput = [
+    batchId: bigint,
+    marketId: bigint,
+    status: bigint,
+    submissionCount: bigint,
+    submissionDeadline: bigint,
+    evaluationDeadline: bigint,
+    actualScore: bigint,
+    winnerCount: bigint,
+    totalStaked: bigint
+  ] & {
+    batchId: bigint;
+    marketId: bigint;
+    status: bigint;
+    submissionCount: bigint;
+    submissionDeadline: bigint;
+    evaluationDeadline: bigint;
+    actualScore: bigint;
+    winnerCount: bigint;
+    totalStaked: bigint;
+  };
+
+  export type MarketStruct = {
+    modelId: string;
+    provider: AddressLike;
+    active: boolean;
+    currentBatchId: BigNumberish;
+    config: AIPredictMarketFHE.MarketConfigStruct;
+  };
+
+  export type MarketStructOutput = [
+    modelId: string,
+    provider: string,
+    active: boolean,
+    currentBatchId: bigint,
+    config: AIPredictMarketFHE.MarketConfigStructOutput
+  ] & {
+    modelId: string;
+    provider: string;
+    active: boolean;
+    currentBatchId: bigint;
+    config: AIPredictMarketFHE.MarketConfigStructOutput;
+  };
+}
+
+export interface AIPredictMarketFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "ARBITRATOR_ROLE"
+      | "BATCH_OPERATOR_ROLE"
+      | "DOMAIN_SEPARATOR"
+      | "EVALUATOR_ROLE"
+      | "MAX_FEE_BPS"
+      | "PAUSER_ROLE"
+      | "PREDICTION_INTENT_TYPEHASH"
+      | "TREASURER_ROLE"
+      | "acceptOwnership"
+      | "accruedFees"
+      | "batches"
+      | "bucketOf"
+      | "cancelBatch"
+      | "challengePeriod"
+      | "claimCallback"
+      | "claimContexts"
+      | "claimRefund"
+      | "claimReward"
+      | "closeBatch"
+      | "closeExpiredBatch"
+      | "confidentialBalanceOf"
+      | "cooldownRemaining"
+      | "cooldownSeconds"
+      | "createMarket"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "decryptionOracle"
+      | "deposit"
+      | "dismissDispute"
+      | "disputeBond"
+      | "disputeResolutionPeriod"
+      | "disputeResult"
+      | "disputes"
+      | "feeBps"
+      | "getActiveMarkets"
+      | "getBatchPot"
+      | "getBatchPredictions"
+      | "getBatchStatus"
+      | "getBatches"
+      | "getBucketBounds"
+      | "getBucketSettlement"
+      | "getCrowdConsensus"
+      | "getDecryptionHandles"
+      | "getMarket"
+      | "getPredictionHistory"
+      | "grantRole"
+      | "hasRole"
+      | "initialize"
+      | "isEvaluator"
+      | "isProvider"
+      | "keeperBounty"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "marketCount"
+      | "marketIdByModel"
+      | "markets"
+      | "myCallback"
+      | "nonces"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "predictions"
+      | "protocolId"
+      | "recordReputations"
+      | "reputationCallback"
+      | "reputations"
+      | "requestBatchEvaluation"
+      | "resolveDispute"
+      | "revealContexts"
+      | "revealReputation"
+      | "revokeRole"
+      | "setChallengePeriod"
+      | "setCooldown"
+      | "setDecryptionOracle"
+      | "setDisputeBond"
+      | "setDisputeResolutionPeriod"
+      | "setFee"
+      | "setKeeperBounty"
+      | "setMarketActive"
+      | "setPaused"
+      | "setTreasury"
+      | "settleBatchChunk"
+      | "submitBucketPrediction"
+      | "submitConfidentialPrediction"
+      | "submitPrediction(uint256,bytes32,uint256)"
+      | "submitPrediction(uint256,bytes32,bytes,uint256)"
+      | "submitPredictionWithSig"
+      | "testSetEvaluations"
+      | "transferOwnership"
+      | "treasury"
+      | "updateMarketConfig"
+      | "uploadTestSet"
+      | "withdraw"
+      | "withdrawCallback"
+      | "withdrawFees"
+      | "withdrawalContexts"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchCancelled"
+      | "BatchClosed"
+      | "BatchEvaluationTimedOut"
+      | "BatchOpened"
+      | "BatchSettlementProgress"
+      | "ChallengePeriodSet"
+      | "ClaimRequested"
+      | "ConfidentialPayoutCredited"
+      | "ConfidentialPredictionSubmitted"
+      | "CooldownSet"
+      | "CrowdConsensusRevealed"
+      | "DecryptionCompleted"
+      | "DecryptionOracleSet"
+      | "DecryptionRequested"
+      | "Deposited"
+      | "DisputeBondSet"
+      | "DisputeDismissed"
+      | "DisputeResolutionPeriodSet"
+      | "DisputeResolved"
+      | "FeeUpdated"
+      | "FeesWithdrawn"
+      | "Initialized"
+      | "KeeperBountySet"
+      | "KeeperRewarded"
+      | "MarketConfigUpdated"
+      | "MarketCreated"
+      | "MarketStatusChanged"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PauseToggled"
+      | "PredictionIntentExecuted"
+      | "PredictionSubmitted"
+      | "RefundIssued"
+      | "ReputationRevealRequested"
+      | "ReputationRevealed"
+      | "ReputationsRecorded"
+      | "ResultDisputed"
+      | "RewardClaimed"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "TestSetUploaded"
+      | "TreasurySet"
+      | "WithdrawalRequested"
+      | "Withdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ARBITRATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DOMAIN_SEPARATOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EVALUATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FEE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PREDICTION_INTENT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TREASURER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accruedFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bucketOf",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengePeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimReward",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeExpiredBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialBalanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownRemaining",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createMarket",
+    values: [string, AIPredictMarketFHE.MarketConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionOracle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "deposit", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "dismissDispute",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeBond",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeResolutionPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "feeBps", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getActiveMarkets",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchPot",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchPredictions",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatches",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBucketBounds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBucketSettlement",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCrowdConsensus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionHandles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMarket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPredictionHistory",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isEvaluator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "keeperBounty",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketIdByModel",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "markets",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "predictions",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordReputations",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reputationCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reputations",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchEvaluation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealReputation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setChallengePeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionOracle",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDisputeBond",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDisputeResolutionPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setKeeperBounty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMarketActive",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setTreasury",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBatchChunk",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBucketPrediction",
+    values: [BigNumberish, BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitConfidentialPrediction",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPrediction(uint256,bytes32,uint256)",
+    values: [BigNumberish, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPrediction(uint256,bytes32,bytes,uint256)",
+    values: [BigNumberish, BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPredictionWithSig",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "testSetEvaluations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "treasury", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateMarketConfig",
+    values: [BigNumberish, AIPredictMarketFHE.MarketConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "uploadTestSet",
+    values: [BigNumberish, BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFees",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawalContexts",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ARBITRATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "BATCH_OPERATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DOMAIN_SEPARATOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EVALUATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FEE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PREDICTION_INTENT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TREASURER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accruedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "bucketOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeExpiredBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownRemaining",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "dismissDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeBond",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeResolutionPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "disputes", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "feeBps", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveMarkets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchPot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchPredictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBatches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBucketBounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBucketSettlement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCrowdConsensus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionHandles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getMarket", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPredictionHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isEvaluator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "keeperBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketIdByModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "markets", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "predictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordReputations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reputationCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reputations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchEvaluation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealReputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setChallengePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDisputeBond",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDisputeResolutionPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setFee", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setKeeperBounty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMarketActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleBatchChunk",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBucketPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitConfidentialPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPrediction(uint256,bytes32,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPrediction(uint256,bytes32,bytes,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPredictionWithSig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "testSetEvaluations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "treasury", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateMarketConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "uploadTestSet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawalContexts",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchCancelledEvent {
+  export type InputTuple = [batchId: BigNumberish, operator: AddressLike];
+  export type OutputTuple = [batchId: bigint, operator: string];
+  export interface OutputObject {
+    batchId: bigint;
+    operator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish, marketId: BigNumberish];
+  export type OutputTuple = [batchId: bigint, marketId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    marketId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchEvaluationTimedOutEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    marketId: BigNumberish,
+    tolerance: BigNumberish,
+    submissionDeadline: BigNumberish,
+    evaluationDeadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    marketId: bigint,
+    tolerance: bigint,
+    submissionDeadline: bigint,
+    evaluationDeadline: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    marketId: bigint;
+    tolerance: bigint;
+    submissionDeadline: bigint;
+    evaluationDeadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchSettlementProgressEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    settled: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, settled: bigint, total: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    settled: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengePeriodSetEvent {
+  export type InputTuple = [oldPeriod: BigNumberish, newPeriod: BigNumberish];
+  export type OutputTuple = [oldPeriod: bigint, newPeriod: bigint];
+  export interface OutputObject {
+    oldPeriod: bigint;
+    newPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    predictor: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    predictor: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    predictor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialPayoutCreditedEvent {
+  export type InputTuple = [batchId: BigNumberish, predictor: AddressLike];
+  export type OutputTuple = [batchId: bigint, predictor: string];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialPredictionSubmittedEvent {
+  export type InputTuple = [batchId: BigNumberish, predictor: AddressLike];
+  export type OutputTuple = [batchId: bigint, predictor: string];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CrowdConsensusRevealedEvent {
+  export type InputTuple = [batchId: BigNumberish, scoreSum: BigNumberish];
+  export type OutputTuple = [batchId: bigint, scoreSum: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    scoreSum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    actualScore: BigNumberish,
+    totalStaked: BigNumberish,
+    winnerCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    actualScore: bigint,
+    totalStaked: bigint,
+    winnerCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    actualScore: bigint;
+    totalStaked: bigint;
+    winnerCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionOracleSetEvent {
+  export type InputTuple = [oldOracle: AddressLike, newOracle: AddressLike];
+  export type OutputTuple = [oldOracle: string, newOracle: string];
+  export interface OutputObject {
+    oldOracle: string;
+    newOracle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeBondSetEvent {
+  export type InputTuple = [oldBond: BigNumberish, newBond: BigNumberish];
+  export type OutputTuple = [oldBond: bigint, newBond: bigint];
+  export interface OutputObject {
+    oldBond: bigint;
+    newBond: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeDismissedEvent {
+  export type InputTuple = [batchId: BigNumberish, bond: BigNumberish];
+  export type OutputTuple = [batchId: bigint, bond: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    bond: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolutionPeriodSetEvent {
+  export type InputTuple = [oldPeriod: BigNumberish, newPeriod: BigNumberish];
+  export type OutputTuple = [oldPeriod: bigint, newPeriod: bigint];
+  export interface OutputObject {
+    oldPeriod: bigint;
+    newPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    arbitrator: AddressLike,
+    upheld: boolean
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    arbitrator: string,
+    upheld: boolean
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    arbitrator: string;
+    upheld: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeUpdatedEvent {
+  export type InputTuple = [oldFeeBps: BigNumberish, newFeeBps: BigNumberish];
+  export type OutputTuple = [oldFeeBps: bigint, newFeeBps: bigint];
+  export interface OutputObject {
+    oldFeeBps: bigint;
+    newFeeBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesWithdrawnEvent {
+  export type InputTuple = [treasury: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [treasury: string, amount: bigint];
+  export interface OutputObject {
+    treasury: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeeperBountySetEvent {
+  export type InputTuple = [oldBounty: BigNumberish, newBounty: BigNumberish];
+  export type OutputTuple = [oldBounty: bigint, newBounty: bigint];
+  export interface OutputObject {
+    oldBounty: bigint;
+    newBounty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeeperRewardedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    keeper: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, keeper: string, amount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    keeper: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketConfigUpdatedEvent {
+  export type InputTuple = [marketId: BigNumberish];
+  export type OutputTuple = [marketId: bigint];
+  export interface OutputObject {
+    marketId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketCreatedEvent {
+  export type InputTuple = [
+    marketId: BigNumberish,
+    modelId: string,
+    provider: AddressLike
+  ];
+  export type OutputTuple = [
+    marketId: bigint,
+    modelId: string,
+    provider: string
+  ];
+  export interface OutputObject {
+    marketId: bigint;
+    modelId: string;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketStatusChangedEvent {
+  export type InputTuple = [marketId: BigNumberish, active: boolean];
+  export type OutputTuple = [marketId: bigint, active: boolean];
+  export interface OutputObject {
+    marketId: bigint;
+    active: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [owner: AddressLike, pendingOwner: AddressLike];
+  export type OutputTuple = [owner: string, pendingOwner: string];
+  export interface OutputObject {
+    owner: string;
+    pendingOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [oldOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [oldOwner: string, newOwner: string];
+  export interface OutputObject {
+    oldOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionIntentExecutedEvent {
+  export type InputTuple = [
+    predictor: AddressLike,
+    relayer: AddressLike,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [predictor: string, relayer: string, nonce: bigint];
+  export interface OutputObject {
+    predictor: string;
+    relayer: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionSubmittedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    predictor: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundIssuedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    predictor: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationRevealRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, account: AddressLike];
+  export type OutputTuple = [requestId: bigint, account: string];
+  export interface OutputObject {
+    requestId: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationRevealedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    accuracy: BigNumberish,
+    settledPredictions: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    accuracy: bigint,
+    settledPredictions: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    accuracy: bigint;
+    settledPredictions: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationsRecordedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    recorded: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, recorded: bigint, total: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    recorded: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultDisputedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    challenger: AddressLike,
+    bond: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, challenger: string, bond: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    challenger: string;
+    bond: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    predictor: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TestSetUploadedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    evaluator: AddressLike,
+    samples: BigNumberish,
+    totalSamples: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    evaluator: string,
+    samples: bigint,
+    totalSamples: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    evaluator: string;
+    samples: bigint;
+    totalSamples: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasurySetEvent {
+  export type InputTuple = [oldTreasury: AddressLike, newTreasury: AddressLike];
+  export type OutputTuple = [oldTreasury: string, newTreasury: string];
+  export interface OutputObject {
+    oldTreasury: string;
+    newTreasury: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, account: AddressLike];
+  export type OutputTuple = [requestId: bigint, account: string];
+  export interface OutputObject {
+    requestId: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AIPredictMarketFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AIPredictMarketFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AIPredictMarketFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  ARBITRATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  BATCH_OPERATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DOMAIN_SEPARATOR: TypedContractMethod<[], [string], "view">;
+
+  EVALUATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_FEE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PREDICTION_INTENT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  TREASURER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  accruedFees: TypedContractMethod<[], [bigint], "view">;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        bigint
+      ] & {
+        marketId: bigint;
+        isOpen: boolean;
+        plainStakeTotal: bigint;
+        submissionCount: bigint;
+        encryptedActualScore: string;
+        tolerance: bigint;
+        submissionDeadline: bigint;
+        evaluationDeadline: bigint;
+        keeperBounty: bigint;
+        encryptedTotalStake: string;
+        totalStaked: bigint;
+        encryptedWinnerCount: string;
+        encryptedWinningStake: string;
+        evaluated: boolean;
+        actualScore: bigint;
+        winnerCount: bigint;
+        winningStake: bigint;
+        evaluationRequestId: bigint;
+        challengeDeadline: bigint;
+        feeBps: bigint;
+        feeAmount: bigint;
+        cancelled: boolean;
+        evaluationPending: boolean;
+        encryptedActualBucket: string;
+        settlementProgress: bigint;
+        reputationProgress: bigint;
+        encryptedScoreSum: string;
+        consensusRevealed: boolean;
+        scoreSum: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  bucketOf: TypedContractMethod<
+    [marketId: BigNumberish, score: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  cancelBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  challengePeriod: TypedContractMethod<[], [bigint], "view">;
+
+  claimCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  claimContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        predictor: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  claimRefund: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimReward: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [marketId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeExpiredBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialBalanceOf: TypedContractMethod<
+    [account: AddressLike],
+    [string],
+    "view"
+  >;
+
+  cooldownRemaining: TypedContractMethod<
+    [account: AddressLike],
+    [[bigint, bigint] & { submission: bigint; decryption: bigint }],
+    "view"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createMarket: TypedContractMethod<
+    [modelId: string, config: AIPredictMarketFHE.MarketConfigStruct],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionOracle: TypedContractMethod<[], [string], "view">;
+
+  deposit: TypedContractMethod<[], [void], "payable">;
+
+  dismissDispute: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  disputeBond: TypedContractMethod<[], [bigint], "view">;
+
+  disputeResolutionPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  disputeResult: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  disputes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean, bigint] & {
+        challenger: string;
+        bond: bigint;
+        open: boolean;
+        resolutionDeadline: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  feeBps: TypedContractMethod<[], [bigint], "view">;
+
+  getActiveMarkets: TypedContractMethod<[], [bigint[]], "view">;
+
+  getBatchPot: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        grossPot: bigint;
+        fee: bigint;
+        netPot: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBatchPredictions: TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.PredictionSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.PredictionSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBatchStatus: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getBatches: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.BatchSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.BatchSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBucketBounds: TypedContractMethod<
+    [marketId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getBucketSettlement: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        winningBucket: bigint;
+        winningPool: bigint;
+        totalPool: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getCrowdConsensus: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [boolean, bigint, bigint] & {
+        revealed: boolean;
+        meanScore: bigint;
+        actualScore: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptionHandles: TypedContractMethod<
+    [requestId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getMarket: TypedContractMethod<
+    [marketId: BigNumberish],
+    [AIPredictMarketFHE.MarketStructOutput],
+    "view"
+  >;
+
+  getPredictionHistory: TypedContractMethod<
+    [account: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.PredictionSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.PredictionSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [initialOwner: AddressLike, oracle: AddressLike, bond: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  isEvaluator: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  keeperBounty: TypedContractMethod<[], [bigint], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  marketCount: TypedContractMethod<[], [bigint], "view">;
+
+  marketIdByModel: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  markets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        boolean,
+        bigint,
+        AIPredictMarketFHE.MarketConfigStructOutput
+      ] & {
+        modelId: string;
+        provider: string;
+        active: boolean;
+        currentBatchId: bigint;
+        config: AIPredictMarketFHE.MarketConfigStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  nonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  openBatch: TypedContractMethod<[marketId: BigNumberish], [void], "payable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  predictions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, string, bigint, string, boolean, string, boolean] & {
+        predictor: string;
+        encryptedScore: string;
+        amount: bigint;
+        encryptedAmount: string;
+        confidential: boolean;
+        isWinner: string;
+        claimed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordReputations: TypedContractMethod<
+    [batchId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reputationCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reputations: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, boolean, bigint, bigint] & {
+        wins: string;
+        accuracy: string;
+        settledPredictions: bigint;
+        revealed: boolean;
+        revealedAccuracy: bigint;
+        revealedPredictions: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  requestBatchEvaluation: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveDispute: TypedContractMethod<
+    [batchId: BigNumberish, upheld: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  revealContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        account: string;
+        settledPredictions: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  revealReputation: TypedContractMethod<[], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setChallengePeriod: TypedContractMethod<
+    [newPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldown: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionOracle: TypedContractMethod<
+    [newOracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setDisputeBond: TypedContractMethod<
+    [newBond: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDisputeResolutionPeriod: TypedContractMethod<
+    [newPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setFee: TypedContractMethod<[newFeeBps: BigNumberish], [void], "nonpayable">;
+
+  setKeeperBounty: TypedContractMethod<
+    [newBounty: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMarketActive: TypedContractMethod<
+    [marketId: BigNumberish, active: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setTreasury: TypedContractMethod<
+    [newTreasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBatchChunk: TypedContractMethod<
+    [batchId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitBucketPrediction: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedBucket: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitConfidentialPrediction: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedStake: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  "submitPrediction(uint256,bytes32,uint256)": TypedContractMethod<
+    [batchId: BigNumberish, encryptedScore: BytesLike, amount: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  "submitPrediction(uint256,bytes32,bytes,uint256)": TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitPredictionWithSig: TypedContractMethod<
+    [
+      predictor: AddressLike,
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedStake: BytesLike,
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  testSetEvaluations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string] & {
+        evaluator: string;
+        sampleCount: bigint;
+        correctCount: string;
+      }
+    ],
+    "view"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasury: TypedContractMethod<[], [string], "view">;
+
+  updateMarketConfig: TypedContractMethod<
+    [marketId: BigNumberish, config: AIPredictMarketFHE.MarketConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  uploadTestSet: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      labels: BytesLike[],
+      outputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawFees: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawalContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { account: string; processed: boolean }],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ARBITRATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "BATCH_OPERATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DOMAIN_SEPARATOR"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "EVALUATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FEE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PREDICTION_INTENT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TREASURER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accruedFees"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        bigint
+      ] & {
+        marketId: bigint;
+        isOpen: boolean;
+        plainStakeTotal: bigint;
+        submissionCount: bigint;
+        encryptedActualScore: string;
+        tolerance: bigint;
+        submissionDeadline: bigint;
+        evaluationDeadline: bigint;
+        keeperBounty: bigint;
+        encryptedTotalStake: string;
+        totalStaked: bigint;
+        encryptedWinnerCount: string;
+        encryptedWinningStake: string;
+        evaluated: boolean;
+        actualScore: bigint;
+        winnerCount: bigint;
+        winningStake: bigint;
+        evaluationRequestId: bigint;
+        challengeDeadline: bigint;
+        feeBps: bigint;
+        feeAmount: bigint;
+        cancelled: boolean;
+        evaluationPending: boolean;
+        encryptedActualBucket: string;
+        settlementProgress: bigint;
+        reputationProgress: bigint;
+        encryptedScoreSum: string;
+        consensusRevealed: boolean;
+        scoreSum: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bucketOf"
+  ): TypedContractMethod<
+    [marketId: BigNumberish, score: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "challengePeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        predictor: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimReward"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[marketId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeExpiredBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialBalanceOf"
+  ): TypedContractMethod<[account: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "cooldownRemaining"
+  ): TypedContractMethod<
+    [account: AddressLike],
+    [[bigint, bigint] & { submission: bigint; decryption: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createMarket"
+  ): TypedContractMethod<
+    [modelId: string, config: AIPredictMarketFHE.MarketConfigStruct],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionOracle"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "dismissDispute"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "disputeBond"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeResolutionPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeResult"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "disputes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean, bigint] & {
+        challenger: string;
+        bond: bigint;
+        open: boolean;
+        resolutionDeadline: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "feeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getActiveMarkets"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getBatchPot"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        grossPot: bigint;
+        fee: bigint;
+        netPot: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchPredictions"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.PredictionSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.PredictionSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchStatus"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBatches"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.BatchSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.BatchSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBucketBounds"
+  ): TypedContractMethod<[marketId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getBucketSettlement"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        winningBucket: bigint;
+        winningPool: bigint;
+        totalPool: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCrowdConsensus"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [boolean, bigint, bigint] & {
+        revealed: boolean;
+        meanScore: bigint;
+        actualScore: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptionHandles"
+  ): TypedContractMethod<[requestId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getMarket"
+  ): TypedContractMethod<
+    [marketId: BigNumberish],
+    [AIPredictMarketFHE.MarketStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPredictionHistory"
+  ): TypedContractMethod<
+    [account: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [AIPredictMarketFHE.PredictionSummaryStructOutput[], bigint] & {
+        page: AIPredictMarketFHE.PredictionSummaryStructOutput[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [initialOwner: AddressLike, oracle: AddressLike, bond: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isEvaluator"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "keeperBounty"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "marketCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "marketIdByModel"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "markets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        boolean,
+        bigint,
+        AIPredictMarketFHE.MarketConfigStructOutput
+      ] & {
+        modelId: string;
+        provider: string;
+        active: boolean;
+        currentBatchId: bigint;
+        config: AIPredictMarketFHE.MarketConfigStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[marketId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "predictions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, string, bigint, string, boolean, string, boolean] & {
+        predictor: string;
+        encryptedScore: string;
+        amount: bigint;
+        encryptedAmount: string;
+        confidential: boolean;
+        isWinner: string;
+        claimed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordReputations"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reputationCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reputations"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, boolean, bigint, bigint] & {
+        wins: string;
+        accuracy: string;
+        settledPredictions: bigint;
+        revealed: boolean;
+        revealedAccuracy: bigint;
+        revealedPredictions: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "requestBatchEvaluation"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, upheld: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        account: string;
+        settledPredictions: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "revealReputation"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setChallengePeriod"
+  ): TypedContractMethod<[newPeriod: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldown"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionOracle"
+  ): TypedContractMethod<[newOracle: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDisputeBond"
+  ): TypedContractMethod<[newBond: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDisputeResolutionPeriod"
+  ): TypedContractMethod<[newPeriod: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setFee"
+  ): TypedContractMethod<[newFeeBps: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setKeeperBounty"
+  ): TypedContractMethod<[newBounty: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMarketActive"
+  ): TypedContractMethod<
+    [marketId: BigNumberish, active: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTreasury"
+  ): TypedContractMethod<[newTreasury: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settleBatchChunk"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitBucketPrediction"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedBucket: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitConfidentialPrediction"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedStake: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPrediction(uint256,bytes32,uint256)"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedScore: BytesLike, amount: BigNumberish],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPrediction(uint256,bytes32,bytes,uint256)"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPredictionWithSig"
+  ): TypedContractMethod<
+    [
+      predictor: AddressLike,
+      batchId: BigNumberish,
+      encryptedScore: BytesLike,
+      encryptedStake: BytesLike,
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "testSetEvaluations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string] & {
+        evaluator: string;
+        sampleCount: bigint;
+        correctCount: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "treasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "updateMarketConfig"
+  ): TypedContractMethod<
+    [marketId: BigNumberish, config: AIPredictMarketFHE.MarketConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "uploadTestSet"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      labels: BytesLike[],
+      outputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawFees"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawalContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { account: string; processed: boolean }],
+    "view"
+  >;
+
+  getEvent(
+    key: "BatchCancelled"
+  ): TypedContractEvent<
+    BatchCancelledEvent.InputTuple,
+    BatchCancelledEvent.OutputTuple,
+    BatchCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchEvaluationTimedOut"
+  ): TypedContractEvent<
+    BatchEvaluationTimedOutEvent.InputTuple,
+    BatchEvaluationTimedOutEvent.OutputTuple,
+    BatchEvaluationTimedOutEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchSettlementProgress"
+  ): TypedContractEvent<
+    BatchSettlementProgressEvent.InputTuple,
+    BatchSettlementProgressEvent.OutputTuple,
+    BatchSettlementProgressEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengePeriodSet"
+  ): TypedContractEvent<
+    ChallengePeriodSetEvent.InputTuple,
+    ChallengePeriodSetEvent.OutputTuple,
+    ChallengePeriodSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClaimRequested"
+  ): TypedContractEvent<
+    ClaimRequestedEvent.InputTuple,
+    ClaimRequestedEvent.OutputTuple,
+    ClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialPayoutCredited"
+  ): TypedContractEvent<
+    ConfidentialPayoutCreditedEvent.InputTuple,
+    ConfidentialPayoutCreditedEvent.OutputTuple,
+    ConfidentialPayoutCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialPredictionSubmitted"
+  ): TypedContractEvent<
+    ConfidentialPredictionSubmittedEvent.InputTuple,
+    ConfidentialPredictionSubmittedEvent.OutputTuple,
+    ConfidentialPredictionSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CrowdConsensusRevealed"
+  ): TypedContractEvent<
+    CrowdConsensusRevealedEvent.InputTuple,
+    CrowdConsensusRevealedEvent.OutputTuple,
+    CrowdConsensusRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionOracleSet"
+  ): TypedContractEvent<
+    DecryptionOracleSetEvent.InputTuple,
+    DecryptionOracleSetEvent.OutputTuple,
+    DecryptionOracleSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeBondSet"
+  ): TypedContractEvent<
+    DisputeBondSetEvent.InputTuple,
+    DisputeBondSetEvent.OutputTuple,
+    DisputeBondSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeDismissed"
+  ): TypedContractEvent<
+    DisputeDismissedEvent.InputTuple,
+    DisputeDismissedEvent.OutputTuple,
+    DisputeDismissedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolutionPeriodSet"
+  ): TypedContractEvent<
+    DisputeResolutionPeriodSetEvent.InputTuple,
+    DisputeResolutionPeriodSetEvent.OutputTuple,
+    DisputeResolutionPeriodSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeUpdated"
+  ): TypedContractEvent<
+    FeeUpdatedEvent.InputTuple,
+    FeeUpdatedEvent.OutputTuple,
+    FeeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesWithdrawn"
+  ): TypedContractEvent<
+    FeesWithdrawnEvent.InputTuple,
+    FeesWithdrawnEvent.OutputTuple,
+    FeesWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeeperBountySet"
+  ): TypedContractEvent<
+    KeeperBountySetEvent.InputTuple,
+    KeeperBountySetEvent.OutputTuple,
+    KeeperBountySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeeperRewarded"
+  ): TypedContractEvent<
+    KeeperRewardedEvent.InputTuple,
+    KeeperRewardedEvent.OutputTuple,
+    KeeperRewardedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketConfigUpdated"
+  ): TypedContractEvent<
+    MarketConfigUpdatedEvent.InputTuple,
+    MarketConfigUpdatedEvent.OutputTuple,
+    MarketConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketCreated"
+  ): TypedContractEvent<
+    MarketCreatedEvent.InputTuple,
+    MarketCreatedEvent.OutputTuple,
+    MarketCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketStatusChanged"
+  ): TypedContractEvent<
+    MarketStatusChangedEvent.InputTuple,
+    MarketStatusChangedEvent.OutputTuple,
+    MarketStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionIntentExecuted"
+  ): TypedContractEvent<
+    PredictionIntentExecutedEvent.InputTuple,
+    PredictionIntentExecutedEvent.OutputTuple,
+    PredictionIntentExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionSubmitted"
+  ): TypedContractEvent<
+    PredictionSubmittedEvent.InputTuple,
+    PredictionSubmittedEvent.OutputTuple,
+    PredictionSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundIssued"
+  ): TypedContractEvent<
+    RefundIssuedEvent.InputTuple,
+    RefundIssuedEvent.OutputTuple,
+    RefundIssuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationRevealRequested"
+  ): TypedContractEvent<
+    ReputationRevealRequestedEvent.InputTuple,
+    ReputationRevealRequestedEvent.OutputTuple,
+    ReputationRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationRevealed"
+  ): TypedContractEvent<
+    ReputationRevealedEvent.InputTuple,
+    ReputationRevealedEvent.OutputTuple,
+    ReputationRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationsRecorded"
+  ): TypedContractEvent<
+    ReputationsRecordedEvent.InputTuple,
+    ReputationsRecordedEvent.OutputTuple,
+    ReputationsRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultDisputed"
+  ): TypedContractEvent<
+    ResultDisputedEvent.InputTuple,
+    ResultDisputedEvent.OutputTuple,
+    ResultDisputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimed"
+  ): TypedContractEvent<
+    RewardClaimedEvent.InputTuple,
+    RewardClaimedEvent.OutputTuple,
+    RewardClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TestSetUploaded"
+  ): TypedContractEvent<
+    TestSetUploadedEvent.InputTuple,
+    TestSetUploadedEvent.OutputTuple,
+    TestSetUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasurySet"
+  ): TypedContractEvent<
+    TreasurySetEvent.InputTuple,
+    TreasurySetEvent.OutputTuple,
+    TreasurySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalRequested"
+  ): TypedContractEvent<
+    WithdrawalRequestedEvent.InputTuple,
+    WithdrawalRequestedEvent.OutputTuple,
+    WithdrawalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchCancelled(uint256,address)": TypedContractEvent<
+      BatchCancelledEvent.InputTuple,
+      BatchCancelledEvent.OutputTuple,
+      BatchCancelledEvent.OutputObject
+    >;
+    BatchCancelled: TypedContractEvent<
+      BatchCancelledEvent.InputTuple,
+      BatchCancelledEvent.OutputTuple,
+      BatchCancelledEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchEvaluationTimedOut(uint256)": TypedContractEvent<
+      BatchEvaluationTimedOutEvent.InputTuple,
+      BatchEvaluationTimedOutEvent.OutputTuple,
+      BatchEvaluationTimedOutEvent.OutputObject
+    >;
+    BatchEvaluationTimedOut: TypedContractEvent<
+      BatchEvaluationTimedOutEvent.InputTuple,
+      BatchEvaluationTimedOutEvent.OutputTuple,
+      BatchEvaluationTimedOutEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256,uint32,uint64,uint64)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchSettlementProgress(uint256,uint256,uint256)": TypedContractEvent<
+      BatchSettlementProgressEvent.InputTuple,
+      BatchSettlementProgressEvent.OutputTuple,
+      BatchSettlementProgressEvent.OutputObject
+    >;
+    BatchSettlementProgress: TypedContractEvent<
+      BatchSettlementProgressEvent.InputTuple,
+      BatchSettlementProgressEvent.OutputTuple,
+      BatchSettlementProgressEvent.OutputObject
+    >;
+
+    "ChallengePeriodSet(uint64,uint64)": TypedContractEvent<
+      ChallengePeriodSetEvent.InputTuple,
+      ChallengePeriodSetEvent.OutputTuple,
+      ChallengePeriodSetEvent.OutputObject
+    >;
+    ChallengePeriodSet: TypedContractEvent<
+      ChallengePeriodSetEvent.InputTuple,
+      ChallengePeriodSetEvent.OutputTuple,
+      ChallengePeriodSetEvent.OutputObject
+    >;
+
+    "ClaimRequested(uint256,uint256,address)": TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+    ClaimRequested: TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+
+    "ConfidentialPayoutCredited(uint256,address)": TypedContractEvent<
+      ConfidentialPayoutCreditedEvent.InputTuple,
+      ConfidentialPayoutCreditedEvent.OutputTuple,
+      ConfidentialPayoutCreditedEvent.OutputObject
+    >;
+    ConfidentialPayoutCredited: TypedContractEvent<
+      ConfidentialPayoutCreditedEvent.InputTuple,
+      ConfidentialPayoutCreditedEvent.OutputTuple,
+      ConfidentialPayoutCreditedEvent.OutputObject
+    >;
+
+    "ConfidentialPredictionSubmitted(uint256,address)": TypedContractEvent<
+      ConfidentialPredictionSubmittedEvent.InputTuple,
+      ConfidentialPredictionSubmittedEvent.OutputTuple,
+      ConfidentialPredictionSubmittedEvent.OutputObject
+    >;
+    ConfidentialPredictionSubmitted: TypedContractEvent<
+      ConfidentialPredictionSubmittedEvent.InputTuple,
+      ConfidentialPredictionSubmittedEvent.OutputTuple,
+      ConfidentialPredictionSubmittedEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "CrowdConsensusRevealed(uint256,uint256)": TypedContractEvent<
+      CrowdConsensusRevealedEvent.InputTuple,
+      CrowdConsensusRevealedEvent.OutputTuple,
+      CrowdConsensusRevealedEvent.OutputObject
+    >;
+    CrowdConsensusRevealed: TypedContractEvent<
+      CrowdConsensusRevealedEvent.InputTuple,
+      CrowdConsensusRevealedEvent.OutputTuple,
+      CrowdConsensusRevealedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionOracleSet(address,address)": TypedContractEvent<
+      DecryptionOracleSetEvent.InputTuple,
+      DecryptionOracleSetEvent.OutputTuple,
+      DecryptionOracleSetEvent.OutputObject
+    >;
+    DecryptionOracleSet: TypedContractEvent<
+      DecryptionOracleSetEvent.InputTuple,
+      DecryptionOracleSetEvent.OutputTuple,
+      DecryptionOracleSetEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "Deposited(address,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "DisputeBondSet(uint256,uint256)": TypedContractEvent<
+      DisputeBondSetEvent.InputTuple,
+      DisputeBondSetEvent.OutputTuple,
+      DisputeBondSetEvent.OutputObject
+    >;
+    DisputeBondSet: TypedContractEvent<
+      DisputeBondSetEvent.InputTuple,
+      DisputeBondSetEvent.OutputTuple,
+      DisputeBondSetEvent.OutputObject
+    >;
+
+    "DisputeDismissed(uint256,uint256)": TypedContractEvent<
+      DisputeDismissedEvent.InputTuple,
+      DisputeDismissedEvent.OutputTuple,
+      DisputeDismissedEvent.OutputObject
+    >;
+    DisputeDismissed: TypedContractEvent<
+      DisputeDismissedEvent.InputTuple,
+      DisputeDismissedEvent.OutputTuple,
+      DisputeDismissedEvent.OutputObject
+    >;
+
+    "DisputeResolutionPeriodSet(uint64,uint64)": TypedContractEvent<
+      DisputeResolutionPeriodSetEvent.InputTuple,
+      DisputeResolutionPeriodSetEvent.OutputTuple,
+      DisputeResolutionPeriodSetEvent.OutputObject
+    >;
+    DisputeResolutionPeriodSet: TypedContractEvent<
+      DisputeResolutionPeriodSetEvent.InputTuple,
+      DisputeResolutionPeriodSetEvent.OutputTuple,
+      DisputeResolutionPeriodSetEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,address,bool)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "FeeUpdated(uint16,uint16)": TypedContractEvent<
+      FeeUpdatedEvent.InputTuple,
+      FeeUpdatedEvent.OutputTuple,
+      FeeUpdatedEvent.OutputObject
+    >;
+    FeeUpdated: TypedContractEvent<
+      FeeUpdatedEvent.InputTuple,
+      FeeUpdatedEvent.OutputTuple,
+      FeeUpdatedEvent.OutputObject
+    >;
+
+    "FeesWithdrawn(address,uint256)": TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+    FeesWithdrawn: TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "KeeperBountySet(uint256,uint256)": TypedContractEvent<
+      KeeperBountySetEvent.InputTuple,
+      KeeperBountySetEvent.OutputTuple,
+      KeeperBountySetEvent.OutputObject
+    >;
+    KeeperBountySet: TypedContractEvent<
+      KeeperBountySetEvent.InputTuple,
+      KeeperBountySetEvent.OutputTuple,
+      KeeperBountySetEvent.OutputObject
+    >;
+
+    "KeeperRewarded(uint256,address,uint256)": TypedContractEvent<
+      KeeperRewardedEvent.InputTuple,
+      KeeperRewardedEvent.OutputTuple,
+      KeeperRewardedEvent.OutputObject
+    >;
+    KeeperRewarded: TypedContractEvent<
+      KeeperRewardedEvent.InputTuple,
+      KeeperRewardedEvent.OutputTuple,
+      KeeperRewardedEvent.OutputObject
+    >;
+
+    "MarketConfigUpdated(uint256)": TypedContractEvent<
+      MarketConfigUpdatedEvent.InputTuple,
+      MarketConfigUpdatedEvent.OutputTuple,
+      MarketConfigUpdatedEvent.OutputObject
+    >;
+    MarketConfigUpdated: TypedContractEvent<
+      MarketConfigUpdatedEvent.InputTuple,
+      MarketConfigUpdatedEvent.OutputTuple,
+      MarketConfigUpdatedEvent.OutputObject
+    >;
+
+    "MarketCreated(uint256,string,address)": TypedContractEvent<
+      MarketCreatedEvent.InputTuple,
+      MarketCreatedEvent.OutputTuple,
+      MarketCreatedEvent.OutputObject
+    >;
+    MarketCreated: TypedContractEvent<
+      MarketCreatedEvent.InputTuple,
+      MarketCreatedEvent.OutputTuple,
+      MarketCreatedEvent.OutputObject
+    >;
+
+    "MarketStatusChanged(uint256,bool)": TypedContractEvent<
+      MarketStatusChangedEvent.InputTuple,
+      MarketStatusChangedEvent.OutputTuple,
+      MarketStatusChangedEvent.OutputObject
+    >;
+    MarketStatusChanged: TypedContractEvent<
+      MarketStatusChangedEvent.InputTuple,
+      MarketStatusChangedEvent.OutputTuple,
+      MarketStatusChangedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "PredictionIntentExecuted(address,address,uint256)": TypedContractEvent<
+      PredictionIntentExecutedEvent.InputTuple,
+      PredictionIntentExecutedEvent.OutputTuple,
+      PredictionIntentExecutedEvent.OutputObject
+    >;
+    PredictionIntentExecuted: TypedContractEvent<
+      PredictionIntentExecutedEvent.InputTuple,
+      PredictionIntentExecutedEvent.OutputTuple,
+      PredictionIntentExecutedEvent.OutputObject
+    >;
+
+    "PredictionSubmitted(uint256,address,uint256)": TypedContractEvent<
+      PredictionSubmittedEvent.InputTuple,
+      PredictionSubmittedEvent.OutputTuple,
+      PredictionSubmittedEvent.OutputObject
+    >;
+    PredictionSubmitted: TypedContractEvent<
+      PredictionSubmittedEvent.InputTuple,
+      PredictionSubmittedEvent.OutputTuple,
+      PredictionSubmittedEvent.OutputObject
+    >;
+
+    "RefundIssued(uint256,address,uint256)": TypedContractEvent<
+      RefundIssuedEvent.InputTuple,
+      RefundIssuedEvent.OutputTuple,
+      RefundIssuedEvent.OutputObject
+    >;
+    RefundIssued: TypedContractEvent<
+      RefundIssuedEvent.InputTuple,
+      RefundIssuedEvent.OutputTuple,
+      RefundIssuedEvent.OutputObject
+    >;
+
+    "ReputationRevealRequested(uint256,address)": TypedContractEvent<
+      ReputationRevealRequestedEvent.InputTuple,
+      ReputationRevealRequestedEvent.OutputTuple,
+      ReputationRevealRequestedEvent.OutputObject
+    >;
+    ReputationRevealRequested: TypedContractEvent<
+      ReputationRevealRequestedEvent.InputTuple,
+      ReputationRevealRequestedEvent.OutputTuple,
+      ReputationRevealRequestedEvent.OutputObject
+    >;
+
+    "ReputationRevealed(address,uint32,uint32)": TypedContractEvent<
+      ReputationRevealedEvent.InputTuple,
+      ReputationRevealedEvent.OutputTuple,
+      ReputationRevealedEvent.OutputObject
+    >;
+    ReputationRevealed: TypedContractEvent<
+      ReputationRevealedEvent.InputTuple,
+      ReputationRevealedEvent.OutputTuple,
+      ReputationRevealedEvent.OutputObject
+    >;
+
+    "ReputationsRecorded(uint256,uint256,uint256)": TypedContractEvent<
+      ReputationsRecordedEvent.InputTuple,
+      ReputationsRecordedEvent.OutputTuple,
+      ReputationsRecordedEvent.OutputObject
+    >;
+    ReputationsRecorded: TypedContractEvent<
+      ReputationsRecordedEvent.InputTuple,
+      ReputationsRecordedEvent.OutputTuple,
+      ReputationsRecordedEvent.OutputObject
+    >;
+
+    "ResultDisputed(uint256,address,uint256)": TypedContractEvent<
+      ResultDisputedEvent.InputTuple,
+      ResultDisputedEvent.OutputTuple,
+      ResultDisputedEvent.OutputObject
+    >;
+    ResultDisputed: TypedContractEvent<
+      ResultDisputedEvent.InputTuple,
+      ResultDisputedEvent.OutputTuple,
+      ResultDisputedEvent.OutputObject
+    >;
+
+    "RewardClaimed(uint256,address,uint256)": TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+    RewardClaimed: TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "TestSetUploaded(uint256,address,uint32,uint32)": TypedContractEvent<
+      TestSetUploadedEvent.InputTuple,
+      TestSetUploadedEvent.OutputTuple,
+      TestSetUploadedEvent.OutputObject
+    >;
+    TestSetUploaded: TypedContractEvent<
+      TestSetUploadedEvent.InputTuple,
+      TestSetUploadedEvent.OutputTuple,
+      TestSetUploadedEvent.OutputObject
+    >;
+
+    "TreasurySet(address,address)": TypedContractEvent<
+      TreasurySetEvent.InputTuple,
+      TreasurySetEvent.OutputTuple,
+      TreasurySetEvent.OutputObject
+    >;
+    TreasurySet: TypedContractEvent<
+      TreasurySetEvent.InputTuple,
+      TreasurySetEvent.OutputTuple,
+      TreasurySetEvent.OutputObject
+    >;
+
+    "WithdrawalRequested(uint256,address)": TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+    WithdrawalRequested: TypedContractEvent<
+      WithdrawalRequestedEvent.InputTuple,
+      WithdrawalRequestedEvent.OutputTuple,
+      WithdrawalRequestedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+  };
+}
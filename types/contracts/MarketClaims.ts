@@ -0,0 +1,264 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface MarketClaimsInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ClaimRequested"
+      | "ConfidentialPayoutCredited"
+      | "DecryptionFulfilled"
+      | "RefundIssued"
+      | "RewardClaimed"
+  ): EventFragment;
+}
+
+export namespace ClaimRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    predictor: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    predictor: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    predictor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialPayoutCreditedEvent {
+  export type InputTuple = [batchId: BigNumberish, predictor: AddressLike];
+  export type OutputTuple = [batchId: bigint, predictor: string];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundIssuedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    predictor: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    predictor: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    predictor: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    predictor: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketClaims extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketClaims;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketClaimsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "ClaimRequested"
+  ): TypedContractEvent<
+    ClaimRequestedEvent.InputTuple,
+    ClaimRequestedEvent.OutputTuple,
+    ClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialPayoutCredited"
+  ): TypedContractEvent<
+    ConfidentialPayoutCreditedEvent.InputTuple,
+    ConfidentialPayoutCreditedEvent.OutputTuple,
+    ConfidentialPayoutCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundIssued"
+  ): TypedContractEvent<
+    RefundIssuedEvent.InputTuple,
+    RefundIssuedEvent.OutputTuple,
+    RefundIssuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimed"
+  ): TypedContractEvent<
+    RewardClaimedEvent.InputTuple,
+    RewardClaimedEvent.OutputTuple,
+    RewardClaimedEvent.OutputObject
+  >;
+
+  filters: {
+    "ClaimRequested(uint256,uint256,address)": TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+    ClaimRequested: TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+
+    "ConfidentialPayoutCredited(uint256,address)": TypedContractEvent<
+      ConfidentialPayoutCreditedEvent.InputTuple,
+      ConfidentialPayoutCreditedEvent.OutputTuple,
+      ConfidentialPayoutCreditedEvent.OutputObject
+    >;
+    ConfidentialPayoutCredited: TypedContractEvent<
+      ConfidentialPayoutCreditedEvent.InputTuple,
+      ConfidentialPayoutCreditedEvent.OutputTuple,
+      ConfidentialPayoutCreditedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "RefundIssued(uint256,address,uint256)": TypedContractEvent<
+      RefundIssuedEvent.InputTuple,
+      RefundIssuedEvent.OutputTuple,
+      RefundIssuedEvent.OutputObject
+    >;
+    RefundIssued: TypedContractEvent<
+      RefundIssuedEvent.InputTuple,
+      RefundIssuedEvent.OutputTuple,
+      RefundIssuedEvent.OutputObject
+    >;
+
+    "RewardClaimed(uint256,address,uint256)": TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+    RewardClaimed: TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,149 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface MarketDisputesInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic: "DisputeDismissed" | "DisputeResolved"
+  ): EventFragment;
+}
+
+export namespace DisputeDismissedEvent {
+  export type InputTuple = [batchId: BigNumberish, bond: BigNumberish];
+  export type OutputTuple = [batchId: bigint, bond: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    bond: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    arbitrator: AddressLike,
+    upheld: boolean
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    arbitrator: string,
+    upheld: boolean
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    arbitrator: string;
+    upheld: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketDisputes extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketDisputes;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketDisputesInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "DisputeDismissed"
+  ): TypedContractEvent<
+    DisputeDismissedEvent.InputTuple,
+    DisputeDismissedEvent.OutputTuple,
+    DisputeDismissedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+
+  filters: {
+    "DisputeDismissed(uint256,uint256)": TypedContractEvent<
+      DisputeDismissedEvent.InputTuple,
+      DisputeDismissedEvent.OutputTuple,
+      DisputeDismissedEvent.OutputObject
+    >;
+    DisputeDismissed: TypedContractEvent<
+      DisputeDismissedEvent.InputTuple,
+      DisputeDismissedEvent.OutputTuple,
+      DisputeDismissedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,address,bool)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,148 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface MarketRegistryInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic: "MarketConfigUpdated" | "MarketCreated"
+  ): EventFragment;
+}
+
+export namespace MarketConfigUpdatedEvent {
+  export type InputTuple = [marketId: BigNumberish];
+  export type OutputTuple = [marketId: bigint];
+  export interface OutputObject {
+    marketId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketCreatedEvent {
+  export type InputTuple = [
+    marketId: BigNumberish,
+    modelId: string,
+    provider: AddressLike
+  ];
+  export type OutputTuple = [
+    marketId: bigint,
+    modelId: string,
+    provider: string
+  ];
+  export interface OutputObject {
+    marketId: bigint;
+    modelId: string;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "MarketConfigUpdated"
+  ): TypedContractEvent<
+    MarketConfigUpdatedEvent.InputTuple,
+    MarketConfigUpdatedEvent.OutputTuple,
+    MarketConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketCreated"
+  ): TypedContractEvent<
+    MarketCreatedEvent.InputTuple,
+    MarketCreatedEvent.OutputTuple,
+    MarketCreatedEvent.OutputObject
+  >;
+
+  filters: {
+    "MarketConfigUpdated(uint256)": TypedContractEvent<
+      MarketConfigUpdatedEvent.InputTuple,
+      MarketConfigUpdatedEvent.OutputTuple,
+      MarketConfigUpdatedEvent.OutputObject
+    >;
+    MarketConfigUpdated: TypedContractEvent<
+      MarketConfigUpdatedEvent.InputTuple,
+      MarketConfigUpdatedEvent.OutputTuple,
+      MarketConfigUpdatedEvent.OutputObject
+    >;
+
+    "MarketCreated(uint256,string,address)": TypedContractEvent<
+      MarketCreatedEvent.InputTuple,
+      MarketCreatedEvent.OutputTuple,
+      MarketCreatedEvent.OutputObject
+    >;
+    MarketCreated: TypedContractEvent<
+      MarketCreatedEvent.InputTuple,
+      MarketCreatedEvent.OutputTuple,
+      MarketCreatedEvent.OutputObject
+    >;
+  };
+}
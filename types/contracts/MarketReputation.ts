@@ -0,0 +1,219 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface MarketReputationInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "ReputationRevealRequested"
+      | "ReputationRevealed"
+      | "ReputationsRecorded"
+  ): EventFragment;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationRevealRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, account: AddressLike];
+  export type OutputTuple = [requestId: bigint, account: string];
+  export interface OutputObject {
+    requestId: bigint;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationRevealedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    accuracy: BigNumberish,
+    settledPredictions: BigNumberish
+  ];
+  export type OutputTuple = [
+    account: string,
+    accuracy: bigint,
+    settledPredictions: bigint
+  ];
+  export interface OutputObject {
+    account: string;
+    accuracy: bigint;
+    settledPredictions: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationsRecordedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    recorded: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, recorded: bigint, total: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    recorded: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketReputation extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketReputation;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketReputationInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationRevealRequested"
+  ): TypedContractEvent<
+    ReputationRevealRequestedEvent.InputTuple,
+    ReputationRevealRequestedEvent.OutputTuple,
+    ReputationRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationRevealed"
+  ): TypedContractEvent<
+    ReputationRevealedEvent.InputTuple,
+    ReputationRevealedEvent.OutputTuple,
+    ReputationRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationsRecorded"
+  ): TypedContractEvent<
+    ReputationsRecordedEvent.InputTuple,
+    ReputationsRecordedEvent.OutputTuple,
+    ReputationsRecordedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "ReputationRevealRequested(uint256,address)": TypedContractEvent<
+      ReputationRevealRequestedEvent.InputTuple,
+      ReputationRevealRequestedEvent.OutputTuple,
+      ReputationRevealRequestedEvent.OutputObject
+    >;
+    ReputationRevealRequested: TypedContractEvent<
+      ReputationRevealRequestedEvent.InputTuple,
+      ReputationRevealRequestedEvent.OutputTuple,
+      ReputationRevealRequestedEvent.OutputObject
+    >;
+
+    "ReputationRevealed(address,uint32,uint32)": TypedContractEvent<
+      ReputationRevealedEvent.InputTuple,
+      ReputationRevealedEvent.OutputTuple,
+      ReputationRevealedEvent.OutputObject
+    >;
+    ReputationRevealed: TypedContractEvent<
+      ReputationRevealedEvent.InputTuple,
+      ReputationRevealedEvent.OutputTuple,
+      ReputationRevealedEvent.OutputObject
+    >;
+
+    "ReputationsRecorded(uint256,uint256,uint256)": TypedContractEvent<
+      ReputationsRecordedEvent.InputTuple,
+      ReputationsRecordedEvent.OutputTuple,
+      ReputationsRecordedEvent.OutputObject
+    >;
+    ReputationsRecorded: TypedContractEvent<
+      ReputationsRecordedEvent.InputTuple,
+      ReputationsRecordedEvent.OutputTuple,
+      ReputationsRecordedEvent.OutputObject
+    >;
+  };
+}
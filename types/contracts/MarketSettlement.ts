@@ -0,0 +1,111 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface MarketSettlementInterface extends Interface {
+  getEvent(nameOrSignatureOrTopic: "BatchSettlementProgress"): EventFragment;
+}
+
+export namespace BatchSettlementProgressEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    settled: BigNumberish,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, settled: bigint, total: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    settled: bigint;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketSettlement extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketSettlement;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketSettlementInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "BatchSettlementProgress"
+  ): TypedContractEvent<
+    BatchSettlementProgressEvent.InputTuple,
+    BatchSettlementProgressEvent.OutputTuple,
+    BatchSettlementProgressEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchSettlementProgress(uint256,uint256,uint256)": TypedContractEvent<
+      BatchSettlementProgressEvent.InputTuple,
+      BatchSettlementProgressEvent.OutputTuple,
+      BatchSettlementProgressEvent.OutputObject
+    >;
+    BatchSettlementProgress: TypedContractEvent<
+      BatchSettlementProgressEvent.InputTuple,
+      BatchSettlementProgressEvent.OutputTuple,
+      BatchSettlementProgressEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as aiPredictMarketFheSol from "./AI_Predict_Market_Fhe.sol";
+export type { aiPredictMarketFheSol };
+export type { AIPredictMarketProxy } from "./AIPredictMarketProxy";
+export type { MarketBalances } from "./MarketBalances";
+export type { MarketClaims } from "./MarketClaims";
+export type { MarketDisputes } from "./MarketDisputes";
+export type { MarketEvaluation } from "./MarketEvaluation";
+export type { MarketIntents } from "./MarketIntents";
+export type { MarketRegistry } from "./MarketRegistry";
+export type { MarketReputation } from "./MarketReputation";
+export type { MarketSettlement } from "./MarketSettlement";
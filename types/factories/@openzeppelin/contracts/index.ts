@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as access from "./access";
+export * as interfaces from "./interfaces";
+export * as proxy from "./proxy";
+export * as utils from "./utils";
@@ -0,0 +1,194 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../../../common";
+import type {
+  ProxyAdmin,
+  ProxyAdminInterface,
+} from "../../../../../@openzeppelin/contracts/proxy/transparent/ProxyAdmin";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract ITransparentUpgradeableProxy",
+        name: "proxy",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080346100b957601f61045a38819003918201601f19168301916001600160401b038311848410176100bd578084926020946040528339810103126100b957516001600160a01b0390818116908190036100b95780156100a1575f80546001600160a01b03198116831782556040519316907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a361038890816100d28239f35b604051631e4fbdf760e01b81525f6004820152602490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe604060808152600480361015610013575f80fd5b5f915f3560e01c8063715018a6146102bb5780638da5cb5b146102945780639623609d1461015c578063ad3cb1cc146100eb5763f2fde38b14610054575f80fd5b346100e75760203660031901126100e7576001600160a01b038235818116939192908490036100e357610085610350565b83156100cd5750505f54826bffffffffffffffffffffffff60a01b8216175f55167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a380f35b51631e4fbdf760e01b8152908101849052602490fd5b5f80fd5b8280fd5b5082346101595780600319360112610159575080519080820182811067ffffffffffffffff821117610146576101429350815260058252640352e302e360dc1b602083015251918291602083526020830190610312565b0390f35b604184634e487b7160e01b5f525260245ffd5b80fd5b5060603660031901126100e3576001600160a01b03823581811693908490036100e35760249182359081168091036100e35767ffffffffffffffff906044358281116100e357366023820112156100e3578084013583811161028257865191601f8201601f19908116603f0116830185811184821017610270578852818352368783830101116100e357815f92886020930183860137830101526101fe610350565b863b156100e357610230965f92875180998194829363278f794360e11b8452898401528a8a8401526044830190610312565b039134905af1801561026657610244578580f35b909192938095501161025557505052005b604190634e487b7160e01b5f52525ffd5b84513d5f823e3d90fd5b87604188634e487b7160e01b5f52525ffd5b85604186634e487b7160e01b5f52525ffd5b50346100e3575f3660031901126100e3575f5490516001600160a01b039091168152602090f35b346100e3575f3660031901126100e3576102d3610350565b5f80546001600160a01b0319811682556001600160a01b03167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08280a3005b91908251928382525f5b84811061033c575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161031c565b5f546001600160a01b0316330361036357565b60405163118cdaa760e01b8152336004820152602490fdfea164736f6c6343000818000a";
+
+type ProxyAdminConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ProxyAdminConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ProxyAdmin__factory extends ContractFactory {
+  constructor(...args: ProxyAdminConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(initialOwner, overrides || {});
+  }
+  override deploy(
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(initialOwner, overrides || {}) as Promise<
+      ProxyAdmin & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ProxyAdmin__factory {
+    return super.connect(runner) as ProxyAdmin__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ProxyAdminInterface {
+    return new Interface(_abi) as ProxyAdminInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): ProxyAdmin {
+    return new Contract(address, _abi, runner) as unknown as ProxyAdmin;
+  }
+}
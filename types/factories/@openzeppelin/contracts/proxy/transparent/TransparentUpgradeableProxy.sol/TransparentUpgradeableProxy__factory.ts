@@ -0,0 +1,202 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BytesLike,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { PayableOverrides } from "../../../../../../common";
+import type {
+  TransparentUpgradeableProxy,
+  TransparentUpgradeableProxyInterface,
+} from "../../../../../../@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_logic",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "payable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidAdmin",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ProxyDeniedAdminAccess",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "previousAdmin",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "AdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    stateMutability: "payable",
+    type: "fallback",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060a08152610a7d8038038061001581610278565b9283398101906060818303126102745761002e8161029d565b60209161003c83820161029d565b8582015190916001600160401b039190828211610274570185601f820112156102745780519061007361006e836102b1565b610278565b968288528683830101116102745785905f5b8381106102605750505f9187010152823b15610240577f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc80546001600160a01b038581166001600160a01b0319928316811790935588519097919591927fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b5f80a282511561022357505f80838861013e95519101845af43d1561021b573d9161013061006e846102b1565b9283523d5f8985013e6102cc565b505b85519161045a918284019081118482101761020757868492879461062385391681520301905ff080156101fd57831691826080527f7e644d79422f17c01e4894b5f4f588d331ebfa28653d42ae832dc59e38c9798f857fb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103958587549483519286168352820152a182156101e65716179055516102f39081610330823960805181600f0152f35b8451633173bdd160e11b81525f6004820152602490fd5b84513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b6060916102cc565b915050346102315750610140565b63b398979f60e01b8152600490fd5b8551634c9c8ce360e01b81526001600160a01b0384166004820152602490fd5b818101830151898201840152879201610085565b5f80fd5b6040519190601f01601f191682016001600160401b0381118382101761020757604052565b51906001600160a01b038216820361027457565b6001600160401b03811161020757601f01601f191660200190565b906102f357508051156102e157602081519101fd5b60405163d6bda27560e01b8152600490fd5b81511580610326575b610304575090565b604051639996b31560e01b81526001600160a01b039091166004820152602490fd5b50803b156102fc56fe60806040526001600160a01b03337f000000000000000000000000000000000000000000000000000000000000000082160361006a575f356001600160e01b03191663278f794360e11b14610060576040516334ad5dbb60e21b8152600490fd5b610068610105565b005b5f80917f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5416368280378136915af43d5f803e156100a6573d5ff35b3d5ffd5b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff8111838210176100e457604052565b6100aa565b67ffffffffffffffff81116100e457601f01601f191660200190565b3660041161018e57604036600319011261018e576004356001600160a01b0381169081900361018e576024359067ffffffffffffffff821161018e573660238301121561018e5781600401359061016361015e836100e9565b6100be565b91808352366024828601011161018e576020815f92602461018c97018387013784010152610192565b565b5f80fd5b90813b15610229577f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc80546001600160a01b0319166001600160a01b0384169081179091557fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b5f80a280511561020e5761020b9161024a565b50565b50503461021757565b60405163b398979f60e01b8152600490fd5b604051634c9c8ce360e01b81526001600160a01b0383166004820152602490fd5b5f8061027c93602081519101845af43d1561027f573d9161026d61015e846100e9565b9283523d5f602085013e610283565b90565b6060915b906102aa575080511561029857602081519101fd5b60405163d6bda27560e01b8152600490fd5b815115806102dd575b6102bb575090565b604051639996b31560e01b81526001600160a01b039091166004820152602490fd5b50803b156102b356fea164736f6c6343000818000a6080346100b957601f61045a38819003918201601f19168301916001600160401b038311848410176100bd578084926020946040528339810103126100b957516001600160a01b0390818116908190036100b95780156100a1575f80546001600160a01b03198116831782556040519316907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a361038890816100d28239f35b604051631e4fbdf760e01b81525f6004820152602490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe604060808152600480361015610013575f80fd5b5f915f3560e01c8063715018a6146102bb5780638da5cb5b146102945780639623609d1461015c578063ad3cb1cc146100eb5763f2fde38b14610054575f80fd5b346100e75760203660031901126100e7576001600160a01b038235818116939192908490036100e357610085610350565b83156100cd5750505f54826bffffffffffffffffffffffff60a01b8216175f55167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a380f35b51631e4fbdf760e01b8152908101849052602490fd5b5f80fd5b8280fd5b5082346101595780600319360112610159575080519080820182811067ffffffffffffffff821117610146576101429350815260058252640352e302e360dc1b602083015251918291602083526020830190610312565b0390f35b604184634e487b7160e01b5f525260245ffd5b80fd5b5060603660031901126100e3576001600160a01b03823581811693908490036100e35760249182359081168091036100e35767ffffffffffffffff906044358281116100e357366023820112156100e3578084013583811161028257865191601f8201601f19908116603f0116830185811184821017610270578852818352368783830101116100e357815f92886020930183860137830101526101fe610350565b863b156100e357610230965f92875180998194829363278f794360e11b8452898401528a8a8401526044830190610312565b039134905af1801561026657610244578580f35b909192938095501161025557505052005b604190634e487b7160e01b5f52525ffd5b84513d5f823e3d90fd5b87604188634e487b7160e01b5f52525ffd5b85604186634e487b7160e01b5f52525ffd5b50346100e3575f3660031901126100e3575f5490516001600160a01b039091168152602090f35b346100e3575f3660031901126100e3576102d3610350565b5f80546001600160a01b0319811682556001600160a01b03167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08280a3005b91908251928382525f5b84811061033c575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161031c565b5f546001600160a01b0316330361036357565b60405163118cdaa760e01b8152336004820152602490fdfea164736f6c6343000818000a";
+
+type TransparentUpgradeableProxyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TransparentUpgradeableProxyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TransparentUpgradeableProxy__factory extends ContractFactory {
+  constructor(...args: TransparentUpgradeableProxyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _logic: AddressLike,
+    initialOwner: AddressLike,
+    _data: BytesLike,
+    overrides?: PayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      _logic,
+      initialOwner,
+      _data,
+      overrides || {}
+    );
+  }
+  override deploy(
+    _logic: AddressLike,
+    initialOwner: AddressLike,
+    _data: BytesLike,
+    overrides?: PayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      _logic,
+      initialOwner,
+      _data,
+      overrides || {}
+    ) as Promise<
+      TransparentUpgradeableProxy & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): TransparentUpgradeableProxy__factory {
+    return super.connect(runner) as TransparentUpgradeableProxy__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TransparentUpgradeableProxyInterface {
+    return new Interface(_abi) as TransparentUpgradeableProxyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TransparentUpgradeableProxy {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as TransparentUpgradeableProxy;
+  }
+}
@@ -0,0 +1,3703 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AIPredictMarketFHE,
+  AIPredictMarketFHEInterface,
+} from "../../../contracts/AI_Predict_Market_Fhe.sol/AIPredictMarketFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyEvaluated",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchIsCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotCancellable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotEvaluated",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ChallengeWindowActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ChallengeWindowClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DeadlineNotReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DisputeOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EvaluationTimedOut",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FeeTooHigh",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "IntentExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAccount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBond",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBounty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCooldown",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDeposit",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMarketConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidResolutionPeriod",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSettlementRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTestSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketExists",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketInactive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketNotFound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoOpenDispute",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoPrediction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoReputation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotArbitrator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDecryptionOracle",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEvaluator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMarketProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ResolutionPeriodActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SettlementStarted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StakeOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SubmissionDeadlinePassed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TestSetMissing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedCiphertext",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WrongMarketType",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "BatchCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchEvaluationTimedOut",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "tolerance",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "evaluationDeadline",
+        type: "uint64",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "settled",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "BatchSettlementProgress",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "oldPeriod",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "newPeriod",
+        type: "uint64",
+      },
+    ],
+    name: "ChallengePeriodSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+    ],
+    name: "ClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+    ],
+    name: "ConfidentialPayoutCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+    ],
+    name: "ConfidentialPredictionSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "scoreSum",
+        type: "uint256",
+      },
+    ],
+    name: "CrowdConsensusRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "actualScore",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalStaked",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winnerCount",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldOracle",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOracle",
+        type: "address",
+      },
+    ],
+    name: "DecryptionOracleSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldBond",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newBond",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeBondSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeDismissed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "oldPeriod",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "newPeriod",
+        type: "uint64",
+      },
+    ],
+    name: "DisputeResolutionPeriodSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "arbitrator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "oldFeeBps",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "newFeeBps",
+        type: "uint16",
+      },
+    ],
+    name: "FeeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FeesWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldBounty",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newBounty",
+        type: "uint256",
+      },
+    ],
+    name: "KeeperBountySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "KeeperRewarded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "MarketConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "MarketCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "MarketStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionIntentExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ReputationRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "accuracy",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "settledPredictions",
+        type: "uint32",
+      },
+    ],
+    name: "ReputationRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recorded",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "ReputationsRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+    ],
+    name: "ResultDisputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "samples",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalSamples",
+        type: "uint32",
+      },
+    ],
+    name: "TestSetUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldTreasury",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newTreasury",
+        type: "address",
+      },
+    ],
+    name: "TreasurySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "WithdrawalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ARBITRATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BATCH_OPERATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "EVALUATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PREDICTION_INTENT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TREASURER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "accruedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isOpen",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "plainStakeTotal",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedActualScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "tolerance",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "submissionDeadline",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "evaluationDeadline",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "keeperBounty",
+        type: "uint256",
+      },
+      {
+        internalType: "euint128",
+        name: "encryptedTotalStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "totalStaked",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedWinnerCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "encryptedWinningStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "evaluated",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "actualScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "winnerCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "winningStake",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "evaluationRequestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "challengeDeadline",
+        type: "uint64",
+      },
+      {
+        internalType: "uint16",
+        name: "feeBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint256",
+        name: "feeAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "cancelled",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "evaluationPending",
+        type: "bool",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedActualBucket",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "settlementProgress",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reputationProgress",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedScoreSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "consensusRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "scoreSum",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "score",
+        type: "uint32",
+      },
+    ],
+    name: "bucketOf",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "bucket",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengePeriod",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "claimCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "claimContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claimReward",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeExpiredBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "cooldownRemaining",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "submission",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "decryption",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32[]",
+            name: "bucketBounds",
+            type: "uint32[]",
+          },
+          {
+            internalType: "uint32",
+            name: "tolerance",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "minStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "submissionPeriod",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "evaluationPeriod",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.MarketConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "createMarket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionOracle",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "dismissDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disputeBond",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disputeResolutionPeriod",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "disputeResult",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disputes",
+    outputs: [
+      {
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "open",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "resolutionDeadline",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "feeBps",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveMarkets",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "marketIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchPot",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "grossPot",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "netPot",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchPredictions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "predictor",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "confidential",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "claimed",
+            type: "bool",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.BatchStatus",
+            name: "status",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchStatus",
+    outputs: [
+      {
+        internalType: "enum AIPredictMarketFHE.BatchStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBatches",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "marketId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.BatchStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "submissionCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "submissionDeadline",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "evaluationDeadline",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "actualScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "winnerCount",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "totalStaked",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.BatchSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "getBucketBounds",
+    outputs: [
+      {
+        internalType: "uint32[]",
+        name: "",
+        type: "uint32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBucketSettlement",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "winningBucket",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "winningPool",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalPool",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getCrowdConsensus",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "meanScore",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "actualScore",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptionHandles",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "getMarket",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "modelId",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "provider",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "active",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "currentBatchId",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "string",
+                name: "category",
+                type: "string",
+              },
+              {
+                internalType: "enum AIPredictMarketFHE.MarketType",
+                name: "marketType",
+                type: "uint8",
+              },
+              {
+                internalType: "uint32[]",
+                name: "bucketBounds",
+                type: "uint32[]",
+              },
+              {
+                internalType: "uint32",
+                name: "tolerance",
+                type: "uint32",
+              },
+              {
+                internalType: "uint256",
+                name: "minStake",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxStake",
+                type: "uint256",
+              },
+              {
+                internalType: "uint64",
+                name: "submissionPeriod",
+                type: "uint64",
+              },
+              {
+                internalType: "uint64",
+                name: "evaluationPeriod",
+                type: "uint64",
+              },
+            ],
+            internalType: "struct AIPredictMarketFHE.MarketConfig",
+            name: "config",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.Market",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "predictor",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "confidential",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "claimed",
+            type: "bool",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.BatchStatus",
+            name: "status",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.PredictionSummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isEvaluator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "keeperBounty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "marketCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "marketIdByModel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "markets",
+    outputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "currentBatchId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32[]",
+            name: "bucketBounds",
+            type: "uint32[]",
+          },
+          {
+            internalType: "uint32",
+            name: "tolerance",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "minStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "submissionPeriod",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "evaluationPeriod",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.MarketConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "predictions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "confidential",
+        type: "bool",
+      },
+      {
+        internalType: "ebool",
+        name: "isWinner",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "claimed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "recordReputations",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "reputationCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "reputations",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "wins",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "accuracy",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "settledPredictions",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "revealedAccuracy",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revealedPredictions",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchEvaluation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+    ],
+    name: "resolveDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revealContexts",
+    outputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "settledPredictions",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revealReputation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "newPeriod",
+        type: "uint64",
+      },
+    ],
+    name: "setChallengePeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOracle",
+        type: "address",
+      },
+    ],
+    name: "setDecryptionOracle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newBond",
+        type: "uint256",
+      },
+    ],
+    name: "setDisputeBond",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "newPeriod",
+        type: "uint64",
+      },
+    ],
+    name: "setDisputeResolutionPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint16",
+        name: "newFeeBps",
+        type: "uint16",
+      },
+    ],
+    name: "setFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newBounty",
+        type: "uint256",
+      },
+    ],
+    name: "setKeeperBounty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "setMarketActive",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newTreasury",
+        type: "address",
+      },
+    ],
+    name: "setTreasury",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "settleBatchChunk",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedBucket",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "submitBucketPrediction",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitConfidentialPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "submitPrediction",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "submitPrediction",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "submitPredictionWithSig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "testSetEvaluations",
+    outputs: [
+      {
+        internalType: "address",
+        name: "evaluator",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "sampleCount",
+        type: "uint32",
+      },
+      {
+        internalType: "euint32",
+        name: "correctCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "treasury",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "enum AIPredictMarketFHE.MarketType",
+            name: "marketType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32[]",
+            name: "bucketBounds",
+            type: "uint32[]",
+          },
+          {
+            internalType: "uint32",
+            name: "tolerance",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "minStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxStake",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "submissionPeriod",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "evaluationPeriod",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIPredictMarketFHE.MarketConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "updateMarketConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "labels",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "outputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "uploadTestSet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "withdrawCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawalContexts",
+    outputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001f7575f606062000018620001fb565b8281528260208201528284820152015262000032620001fb565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790557ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805460ff81841c16620001e6576001600160401b036002600160401b031982821601620001a1575b8351615d449081620002308239f35b6001600160401b0319909116811790915581519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d290602090a15f808062000192565b825163f92ee8a960e01b8152600490fd5b5f80fd5b60405190608082016001600160401b038111838210176200021b57604052565b634e487b7160e01b5f52604160045260245ffdfe6101c0806040526004361015610013575f80fd5b5f905f3560e01c9081630636ec891461414b5750806306fa15a7146140d257806308dbd4e814613ffb5780630a24cf5f14613ead5780630a763da114613e90578063124bd04b14613dc457806315fc9eaf14613d2957806316c38b3c14613c935780631794bb3c1461399557806317baaf20146139775780631b561cf91461390f5780631c0114901461383257806321daa494146137f757806324a9d853146137d557806324b4cee01461359c5780632d1bbc8e1461356e5780632d9c3d60146135505780632f2ff15d146134ed5780633006ea181461344a57806330d0ea311461340f578063344ff101146133d657806334a413f61461333f57806334b25ee2146132665780633644e515146131d35780633b5b79f5146131a95780633ca6c818146131285780633d1b09021461309357806342b7078e14612ffd5780634525a3cc14612f32578063476343ee14612e9f5780634a2e35ba14612e045780634fc3f41a14612d7b578063535ddecb14612ccb578063564a565d14612c6a5780635870b7dc14612c2d57806359b2ad8e14612b965780635a94a07914612b5d5780635b7baf6414612a6d5780635c975abb14612a4a57806361d027b314612a1d57806364b5169b146127c4578063682c2058146127a65780636b074a07146127515780636d9b0cc8146126be5780636dfb93fc1461267157806375b238fc1461264957806379ba5097146125be5780637ecebe00146125855780638005cd941461255d5780638206ae6c146124e2578063842ca12514612496578063861efae0146122b15780638da5cb5b1461228a5780638e005553146121de57806391d148541461219457806392b108d0146121005780639c7b8a36146120635780639cea0787146120285780639d82190f14611fbd578063a436547614611f84578063a5e973c314611e58578063ae169a5014611dcc578063aea6155614611d07578063b05c7d9114611c67578063b1283e7714611bda578063b32c4d8d1461197a578063b3fa6dec14611951578063b4df031414611727578063b65e8941146116e0578063b8221bc4146116c2578063be0bad6914611683578063c7215d9114611525578063c8c6fe7214611413578063ccb01b9e1461136f578063cdc865cb14611318578063d0996b001461108e578063d0e30db014610f2e578063d2c411d314610e41578063d547741f14610ded578063d55be8c614610dd0578063da1f12ab14610db3578063e30c397814610d8a578063e53d97a614610d4b578063e63ab1e914610d10578063e87dcdb414610c9d578063e9a0933a14610b4b578063eb44fdd314610a13578063ec979082146109f5578063ecb7dbe9146109ce578063efbfad3c14610988578063f0a3a97c14610960578063f0f4426014610895578063f2fde38b14610800578063f3f480d9146107d9578063f8d3363814610789578063f9b3192914610716578063fcd267ea146105d95763fdd1f75414610455575f80fd5b6020806003193601126105d55760043560ff600354166105c357808352601282526040832060ff600b82015416156105b157600e01546001600160401b03908116421161059f578184526016835260ff60026040862001541661058d57600b54340361057b576104cb81601e54168242166148fc565b60026040516104d981614233565b338152858101348152604082019460018652606083019416845285885260168752604088209160018060a01b039051166001600160601b0360a01b83541617825551600182015501915115159060ff68ffffffffffffffff008454925160081b1692169068ffffffffffffffffff1916171790557fdd9b09999c1a0f346ed8642ee2106c457d52d3e1cd637488d336f8e6d73bfcb9604051923484523393a380f35b604051630a02a21f60e21b8152600490fd5b60405163f321c1a360e01b8152600490fd5b604051631588dee160e11b8152600490fd5b604051636f84ec9160e01b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b5080fd5b50346106c9576003196040368201126105d55760043590602435906001600160401b0382116107125761010090823603011261070e57818352600f60205260408320600101546001600160a01b03908116156106fc57828452600f6020528060016040862001541633141590816106ee575b506106dc57829173__$d24f3a2396e9073c5ff00f1c74383d3c82$__91823b156106d7576106a8928492604051809581948293636a85b2bb60e11b8452600f60048501526024840152606060448401526064830190600401614c56565b03915af480156106cc576106b95750f35b6106c29061420c565b6106c95780f35b80fd5b6040513d84823e3d90fd5b505050fd5b6040516393a879d560e01b8152600490fd5b90508354163314155f61064b565b6040516307db1be560e41b8152600490fd5b8280fd5b8380fd5b50346106c95760203660031901126106c9578073__$814afb47376584aba011a78cdc2d692ed8$__803b156107865781608491604051928380926313df9a9f60e01b82526016600483015260126024830152600f604483015260043560648301525af480156106cc576106b95750f35b50fd5b50346106c95760203660031901126106c95760406060916004358152601b602052205460ff6040519160018060a01b038116835263ffffffff8160a01c16602084015260c01c1615156040820152f35b50346106c957806003193601126106c95760206001600160401b03600a5416604051908152f35b50346106c95760203660031901126106c95761081a6141b6565b81546001600160a01b039081169133839003610883571690811561087157600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b604051630da30f6560e31b8152600490fd5b6040516330cd747160e01b8152600490fd5b50346106c95760203660031901126106c9576108af6141b6565b5f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f2054161561094257506001600160a01b0390808216801561087157600c54928360101c167f21eb548722a564f6e09f039f7aa858ae94c911910f3823b37af2250eeca4f4038580a362010000600160b01b031990911660109190911b62010000600160b01b031617600c5580f35b604490604051906301d4003760e61b82526004820152336024820152fd5b50346106c957806003193601126106c95760206040515f80516020615c988339815191528152f35b50346106c95760203660031901126106c9576109b6600560406109ca936004358152600f602052200161455c565b6040519182916020835260208301906147d0565b0390f35b50346106c957806003193601126106c95760206001600160401b03601e5416604051908152f35b50346106c957806003193601126106c9576020600e54604051908152f35b50346106c9576020806003193601126105d5576004359160405191610a378361426a565b60609283815282828201528260408201528284820152608060405191610a5c83614285565b8583528484840152856040840152848684015284828401528460a08401528460c08401528460e08401520152838252600f815260018060a01b039081600160408520015416156106fc5760408360a0966109ca9552600f83522060405194610ac38661426a565b610acc8261448f565b8652600182015483870194808216865260ff60408901928a1c1615158252610b24610b046003600287015496868c01978852016146fe565b9560808a019687526040519a8b9a828c5251918b015260c08a0190614785565b95511660408801525115159086015251608085015251838203601f190160a0850152614809565b50346106c9576003196040368201126105d5576001600160401b0360043581811161071257610b7e903690600401614462565b9092602435928311610c8757610100818436030112610c87575f80516020615cb88339815191528552600260205260408520335f5260205260ff60405f20541615610c8b5760ff600354166105c3578491610bda600e546148ee565b9485600e5573__$d24f3a2396e9073c5ff00f1c74383d3c82$__91823b15610c8757610c4e610c3c94604051978896879586956368d01dbf60e11b8752600f6004880152601060248801528c604488015260a0606488015260a4870191614a7f565b91848303016084850152600401614c56565b03915af48015610c7c57610c68575b602082604051908152f35b610c72839161420c565b6105d55781610c5d565b6040513d85823e3d90fd5b8480fd5b604051631a40715960e11b8152600490fd5b5060803660031901126106c9576004356044356001600160401b03811161070e57610ccc903690600401614462565b909160ff600354166105c357610d07610cff610d0d94610ceb33615166565b610cf48461519e565b6064359436916142f8565b602435615a59565b906151cb565b80f35b50346106c957806003193601126106c95760206040517f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8152f35b50346106c95760403660031901126106c95760243563ffffffff81168103610d8657610d7b602091600435614bde565b60ff60405191168152f35b5f80fd5b50346106c957806003193601126106c9576001546040516001600160a01b039091168152602090f35b50346106c957806003193601126106c95760206040516127118152f35b50346106c957806003193601126106c95760206040516103e88152f35b50346106c95760403660031901126106c957610e076141cc565b5f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f205416156109425750610d0d906004356155a8565b50346106c9576020806003193601126105d5576004355f80516020615cb883398151915283526002825260408320335f52825260ff60405f20541615610c8b57808352600f825260408320600101546001600160a01b03908116156106fc57818452600f83528060016040862001541633141580610f21575b6106dc5760ff600354166105c357818452600f835260026040852001548085526012845260ff60016040872001541615610f0f57610d0d93610efd600f92614da3565b93865252600160408520015416614def565b60405163f84b8daf60e01b8152600490fd5b5080845416331415610eba565b50806003193601126106c95760ff600354166105c3573415801561107f575b61106d57338152602060098152604082205481610f786001600160401b03633b9aca00340416615b4e565b821561105d575b801561104f575b606460018060a01b035f80516020615cd883398151915254169386604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610c7c578391611022575b50610fde3082615c23565b610fe83382615c23565b3383526009825260408320557f2da466a7b24304f47e87fa2e1e5a81b9831ce54fec19055ce277ca2f39ba42c4604051913483523392a280f35b90508181813d8311611048575b61103981836142bc565b81010312610d8657515f610fd3565b503d61102f565b50611058615bd0565b610f86565b9150611067615bd0565b91610f7f565b604051635972996f60e11b8152600490fd5b50633b9aca0034061515610f4d565b50346106c9576003196080368201126105d557600435602435916001600160401b0392838111610c87576110c690369060040161488c565b9390604435828111611314576110e090369060040161488c565b93909260643590811161129b576110fb903690600401614462565b90927f4848aa3d2c0568bab3ca9720f91818ee0957e95426fa0627cc4809e2e5ed8be089526020946002865260408a20335f52865260ff60405f205416156112b05760ff600354166105c357878a526012865260408a20541561130257878a526012865260ff600b60408c200154166112f057878a5260128652600460408b2001546112de57881580156112d4575b6112c257878a526015865260408a20805490978b96916001600160a01b0381168061129f57506001600160a01b031916331789555b73__$07cb1d6197558088a47e21bfbeb435e98e$__92833b1561129b576112179688968d94611227611236948e966040519c8d9b8c9a8b9a638921c0cb60e01b8c5260048c0152608060248c015260848b0191614bae565b91868984030160448a0152614bae565b92858403016064860152614a7f565b03915af480156106cc57611287575b505063ffffffff80925460a01c1691604051941684528301527f153f9eccf2f0f41eeb4b78b29563452abb710d093853124a456a85c26ac2668060403393a380f35b6112909061420c565b610c8757845f611245565b8780fd5b9197505033036112b0578a956111bf565b604051633246566b60e21b8152600490fd5b604051635a0c6b5b60e01b8152600490fd5b508689141561118a565b604051632ee0060b60e01b8152600490fd5b60405163b9a29c9d60e01b8152600490fd5b604051632785786f60e21b8152600490fd5b8680fd5b50346106c95760803660031901126106c9576064356001600160401b0381116105d557611349903690600401614462565b60ff600354166105c357610d0d9161136033615166565b60443560243533600435615618565b50346106c95760203660031901126106c95760043560ff600354166105c35780825260126020526040822060ff60018201541615610f0f576005015460201c6001600160401b0316421115611401576113c781614da3565b906113d28233614def565b6040519182527f2c7f45d27c3ff72d09abfaebdf4c8585df203791dec0df5d704f443884d1ad1460203393a380f35b604051633376277360e11b8152600490fd5b50346106c957611422366143ae565b5f80516020615cb8833981519152845260206002815260408520335f52815260ff60405f20541615610c8b5783855260128152604080862054808752600f8352908620600101546001600160a01b0391908216156106fc578652600f8252806001604088200154163314159081611517575b506106dc5760ff600354166105c3576114ac846158b8565b83855260128152604085209260126114c48483614b95565b940154149182159261150e575b5081156114f9575b506114e757610d0d9161591a565b604051638d87a46b60e01b8152600490fd5b6014915083855252604083205481115f6114d9565b1591505f6114d1565b90508554163314155f611494565b50346106c9576020806003193601126105d5576004355f80516020615cb883398151915283526002825260408320335f52825260ff60405f20541615610c8b5780835260128252604080842054808552600f8452908420600101546001600160a01b0391908216156106fc578452600f8352806001604086200154163314159081611675575b506106dc5760ff600354166105c357338352600682526115d2604084205460045490614b95565b42106116635760148392338452600681524260408520556115f2836158b8565b8284525261160460408320548261591a565b73__$f197484550e015e00098403dda736b50b0$__90813b1561165f578290608460405180948193632bff2dc760e01b835260126004840152600f60248401526017604484015260648301525af480156106cc576106b95750f35b5050fd5b60405163aa9a98df60e01b8152600490fd5b90508354163314155f6115ab565b50346106c95760203660031901126106c9576040809160043581526019602052205460ff82519160018060a01b038116835260a01c1615156020820152f35b50346106c957806003193601126106c9576020600454604051908152f35b50346106c95760203660031901126106c9576040606091600435815260176020522080549060ff600260018301549201541690604051928352602083015215156040820152f35b5060803660031901126106c9576004356044356001600160401b03811161070e57611756903690600401614462565b60ff600393929354166105c35761176c33615166565b815f526020926012845260405f20545f52600f845260ff600460405f20015416600281101561193d5760010361192b576117a79136916142f8565b9160018060a01b035f826117fa5f80516020615cd883398151915296848854169060405194858094819363196d0b9b60e01b83526024356004840152336024840152608060448401526084830190614785565b6002606483015203925af19081156118f3575f916118fe575b50815f80516020615cf8833981519152541691823b15610d8657604051630f8e573b60e21b815260048101839052336024820152925f908490604490829084905af19081156118f357879685946044936118e4575b5054169160405196879384926307227b9160e21b84526004840152600460248401525af19081156118d95784916118a9575b50610d0d9250606435916151cb565b905082813d83116118d2575b6118bf81836142bc565b81010312610d8657610d0d91515f61189a565b503d6118b5565b6040513d86823e3d90fd5b6118ed9061420c565b5f611868565b6040513d5f823e3d90fd5b90508281813d8311611924575b61191581836142bc565b81010312610d8657515f611813565b503d61190b565b604051637affbf7760e11b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b50346106c957806003193601126106c9576007546040516001600160a01b039091168152602090f35b50346106c95760203660031901126106c95760409060043581526012602052206101a0526101a0515460ff60016101a0510154166101005260026101a05101546101405261ffff60036101a051015460046101a051015460056101a051015463ffffffff60066101a051015460076101a051015460086101a051015460096101a051015490600a6101a051015492600b6101a0510154946001600160401b03600c6101a051015498600d6101a05101549a600e6101a05101549c600f6101a05101549f60106101a051015460805260116101a051015460c05260126101a05101546101805260136101a05101546101605260146101a05101546101205260156101a051015460e05260405160a05260a05152610100511515602060a051015261014051604060a0510152606060a0510152608060a051015288811660a080510152818160201c1660c060a051015260601c1660e060a051015261010060a051015261012060a051015261014060a051015261016060a051015261018060a051015260ff811615156101a060a0510152818160081c166101c060a051015260281c166101e060a051015261020060a051015261022060a05101526001600160401b03811661024060a051015260401c1661026060a051015261028060a051015260ff6080511615156102a060a051015260ff60805160081c1615156102c060a051015260c0516102e060a05101526101805161030060a05101526101605161032060a05101526101205161034060a051015260ff60e05116151561036060a05101526001600160401b0360e05160081c1661038060a05101526103a060a051f35b50346106c95760203660031901126106c9576040611c38916004358152600f602052206109ca611c098261448f565b91600181015490611c216003600283015492016146fe565b9060ff60405196879660a0885260a0880190614785565b6001600160a01b038516602088015260a09490941c161515604086015260608501528382036080850152614809565b50346106c957611c763661434c565b6007549091906001600160a01b03163303611cf557839273__$83108ea632e4d3c5156d110069b5dbd13f$__803b15610c87578492611ce3926106a8604051968795869485946377cfd1a160e11b8652601960048701526024860152608060448601526084850190614785565b83810360031901606485015290614785565b60405163edee472160e01b8152600490fd5b50346106c95760403660031901126106c957600435611d24614392565b818352600f60205260408320600101546001600160a01b03908116156106fc57828452600f602052806001604086200154163314159081611dbe575b506106dc57818352600f60209081526040808520600101805460ff60a01b191693151560a081901b60ff60a01b16949094179055519182527f315acb57a244ad83f9f375c1ef115a0af14f9a4baed65840b493b4396aef5e4191a280f35b90508354163314155f611d60565b50346106c95760203660031901126106c95760043560ff600354166105c35780611df68392615491565b73__$10b5e16d21b500a339f4bc33412f83d9f1$__90813b1561165f57829060a46040518094819363857b52e960e01b83526012600484015260136024840152601860448401526009606484015260848301525af480156106cc576106b95750f35b50346106c957806003193601126106c957600e548160015b82811115611f415750611e9b611e85846149ac565b93611e9360405195866142bc565b8085526149ac565b6020928484019291601f19013684378160015b82811115611ef75750505060405193838594850191818652518092526040850193925b828110611ee057505050500390f35b835185528695509381019392810192600101611ed1565b80611f1d91859896979552600f855260ff600160408a20015460a01c16611f27576148ee565b9592949395611eae565b80611f3b611f34856148ee565b9488614a6b565b526148ee565b8082949252600f60205260ff600160408620015460a01c16611f6f575b611f67906148ee565b929092611e70565b90611f7c611f67916148ee565b919050611f5e565b50346106c95760203660031901126106c9576020906040906001600160a01b03611fac6141b6565b168152600583522054604051908152f35b50346106c95760203660031901126106c95760409061201c6120086001600160a01b03611fe86141b6565b1692838152600560205284808220549161200d6120086004548095614b95565b6158a0565b95815260066020522054614b95565b82519182526020820152f35b50346106c957806003193601126106c95760206040517f16ceee8289685dd2a02b9c8ae81d2df373176ce53519e6284e2a2950d6546ffa8152f35b50346106c95760203660031901126106c95761207d6141e2565b5f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f205416156109425750600a54604080516001600160401b03808416825284811660208301529293917f24c122bf79c1fdb2af6a6de444e36e1ca4a47efe77d464a13c25fe27d08da99991a116906001600160401b03191617600a5580f35b50346106c95760403660031901126106c95760e090604061211f6141cc565b91600435815260136020522060018060a01b038092165f5260205260405f2090815416906001810154906002810154600382015460ff6004840154169160ff6006600586015495015416946040519687526020870152604086015260608501521515608084015260a0830152151560c0820152f35b50346106c95760403660031901126106c95760406121b06141cc565b9160043581526002602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b50346106c95760203660031901126106c95760043561ffff80821680920361070e575f80516020615d18833981519152808452600260205260408420335f5260205260ff60405f2054161561094257506103e88211612278577f2e7c4279000925b8ff0bca0e7109cbc47fc6f6c4edfb831ffe7466cf0af07fa06040600c549281519084168152846020820152a161ffff191617600c5580f35b60405163cd4e616760e01b8152600490fd5b50346106c957806003193601126106c957546040516001600160a01b039091168152602090f35b50346106c95760e03660031901126106c9576122cb6141b6565b6001600160401b03608435818111610712576122eb903690600401614462565b9160c435908111610c8757612304903690600401614462565b929060ff600354166105c35760a4354211612484576001600160a01b0385168652601d6020526040862080549487929161233d876148ee565b905560405160208101907f29506aefcad842b278006328e8bc2ba1ebfc54b3dea466394ad6a7fd82d16450825260018060a01b03891660408201526024356060820152604435608082015260643560a08201528760c082015260a43560e082015260e081526123ab81614285565b5190209073__$e63def645e139b4e06d50cec7b2679f2e1$__803b15610c8757849289612408604051968795869485946301a86b5560e41b865260018060a01b031660048601526024850152606060448501526064840191614a7f565b03915af480156106cc57612470575b50506124359161242685615166565b60643560443586602435615618565b60405190815233916001600160a01b0316907f5a8a4ad423d980acdf45d00f6c93b2e58be3f456c56e4c81a477afcdff01277b90602090a380f35b6124799061420c565b610c8757845f612417565b604051631022c88d60e21b8152600490fd5b50346106c95760203660031901126106c9576040606091600435815260186020522060ff6001825492015460405192835260018060a01b038116602084015260a01c1615156040820152f35b50346106c95760203660031901126106c9576004355f80516020615c98833981519152808352600260205260408320335f5260205260ff60405f2054161561094257507f7ea34273e08c3053961efff4fba51ab136b33320d77500a7ca4c04d6ec0db52f60406008548151908152836020820152a160085580f35b50346106c957806003193601126106c95760206040515f80516020615cb88339815191528152f35b50346106c95760203660031901126106c9576020906040906001600160a01b036125ad6141b6565b168152601d83522054604051908152f35b50346106c957806003193601126106c9576001546001600160a01b0380821633036126375782546001600160a01b0319808216331785559092166001551661260581615514565b61260e33614e52565b33907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b604051630614e5c760e21b8152600490fd5b50346106c957806003193601126106c95760206040515f80516020615d188339815191528152f35b50346106c95760203660031901126106c957604060609160043581526015602052206001815491015463ffffffff6040519260018060a01b038116845260a01c1660208301526040820152f35b50346106c9576126cd366143ae565b909160ff600354166105c35783926126e482615491565b73__$cb07e3c494731ddb2c5be5e6579bf7930a$__803b15610c8757849260e4916040519586948593631b7c5da760e11b8552601a6004860152601260248601526014604486015260136064860152608485015260a484015260c48301525af480156106cc576106b95750f35b50346106c95760203660031901126106c957604061276d6141b6565b915f80516020615cb883398151915281526002602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b50346106c957806003193601126106c9576020600d54604051908152f35b50346106c95760403660031901126106c9576024601180546127eb602435600435836153ec565b90926127f784836148cd565b9361281a612804866149ac565b9561281260405197886142bc565b8087526149ac565b60209690601f190187895b8281106129d057505050815b8481106128f957505050505060405192604084019460408552835180965260609582606087019501915b81811061286f575050508380955001520390f35b909194836101206001928851805182528381015184830152612899604082015160408401906143a1565b8b8101518c830152608080820151906001600160401b038092169084015260a09081830151169083015260c0808201519063ffffffff8092169084015260e08201511660e08301526101008091015190820152019601910191909161285b565b600181018082116129bd57906129b661295c8363ffffffff60408e60128f600199835252208d81549061292b85614917565b916003840154600585015492839161296b6001600160401b039687956008600b8b01549a01549b6040519d8e61424e565b8d52848d015260408c01614ba2565b60608a01521c16608087015260601c1660a0850152818160081c1660c085015260281c1660e08301526101008201526129a486846148cd565b906129af828c614a6b565b5289614a6b565b5001612831565b634e487b7160e01b8a526004859052828afd5b6040516129dc8161424e565b8b81528b838201528b60408201528b60608201528b60808201528b60a08201528b60c08201528b60e08201528b61010082015282828b010152018890612825565b50346106c957806003193601126106c957600c5460405160109190911c6001600160a01b03168152602090f35b50346106c957806003193601126106c957602060ff600354166040519015158152f35b50346106c95760203660031901126106c95760043560ff600354166105c35780829182526012602052604082206010810180549160ff831615612b02575b50505073__$10b5e16d21b500a339f4bc33412f83d9f1$__90813b1561165f578290606460405180948193631539ee2f60e01b8352601360048401526009602484015260448301525af480156106cc576106b95750f35b612b0e91929450615386565b15612b4b576001849360ff1916179055807f74a2f816bee96bccd012ac931c77b3cb58a79402d94ce6e838cccb71c5e47cf38380a25f8080612aab565b60405163345b218560e01b8152600490fd5b50346106c95760203660031901126106c9576020906040906001600160a01b03612b856141b6565b168152600683522054604051908152f35b50346106c957806003193601126106c95760ff600354166105c3573381526006602052612bca604082205460045490614b95565b42106116635733815260066020524260408220558073__$cb07e3c494731ddb2c5be5e6579bf7930a$__803b15610786578160449160405192838092630975624d60e11b8252601a6004830152601b60248301525af480156106cc576106b95750f35b50346106c95760203660031901126106c957606063ffffffff612c51600435614a9f565b9060409392935193151584526020840152166040820152f35b50346106c95760203660031901126106c957604060809160043581526016602052206001600160401b0360018060a01b03825416916002600182015491015490604051938452602084015260ff81161515604084015260081c166060820152f35b50346106c95760203660031901126106c9576004358152601260205260408120805491828152600f60205260ff600460408320015416906002821015612d67575060010361192b57600b81015460ff8116156105b15760609263ffffffff612d379260081c1690614bde565b90612d51600c82015491600f6008820154910154906148cd565b9060ff6040519316835260208301526040820152f35b634e487b7160e01b81526021600452602490fd5b50346106c95760203660031901126106c9576004355f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f2054161561094257508015612df257806004547f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf8480a360045580f35b604051637475d84d60e11b8152600490fd5b50346106c95760403660031901126106c9576024356001600160401b0381116105d557612e35903690600401614462565b9060ff600354166105c357829173__$83108ea632e4d3c5156d110069b5dbd13f$__91823b156106d7576106a89284926040518095819482936335e9a14b60e11b845260096004850152601960248501526004356044850152608060648501526084840191614a7f565b50346106c957806003193601126106c9575f80516020615c98833981519152808252600260205260408220335f5260205260ff60405f205416156109425750600d5481600d557fc0819c13be868895eb93e40eaceb96de976442fa1d404e5c55f14bb65a8c489a602060018060a01b03612f208482600c5460101c16614def565b600c5460101c1692604051908152a280f35b50346106c95760603660031901126106c9576040612f4e6141b6565b6001600160a01b0381168352601c602052912080549190612f74604435602435856153ec565b91612f87612f8283856148cd565b6149f3565b93825b848110612fa057604051806109ca8989836143c8565b80612ff6612fda84612fb460019588614a42565b919054600392612fd2612fc7888c614a42565b905490861b1c614917565b931b1c61541e565b612fe487846148cd565b90612fef828b614a6b565b5288614a6b565b5001612f8a565b50346106c95760203660031901126106c9576130176141b6565b5f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f2054161561094257506001600160a01b0390811690811561087157816007549182167f8cff6a44f28674daa2ca1032239f1a675e313772338587403f88aad4b4c889e18580a36001600160a01b0319161760075580f35b50346106c9576130a23661434c565b6007549091906001600160a01b03163303611cf557839273__$cb07e3c494731ddb2c5be5e6579bf7930a$__803b15610c87578492613116926106a860405196879586948594638289633560e01b8652601a6004870152601b6024870152604486015260a0606486015260a4850190614785565b83810360031901608485015290614785565b50346106c95760203660031901126106c9576004355f80516020615c98833981519152808352600260205260408320335f5260205260ff60405f205416156109425750801561057b577f0e440d5f8382cad8de93a7cf67c9d76395df55855512f13a2a0826cb75004f836040600b548151908152836020820152a1600b5580f35b50346106c95760203660031901126106c95760406020916004358152601083522054604051908152f35b50346106c957806003193601126106c95760405163f698da2560e01b81529060208260048173__$e63def645e139b4e06d50cec7b2679f2e1$__5af490811561325a5790613227575b602090604051908152f35b506020813d602011613252575b81613241602093836142bc565b81010312610d86576020905161321c565b3d9150613234565b604051903d90823e3d90fd5b50346106c95760403660031901126106c957613280614392565b7f16ceee8289685dd2a02b9c8ae81d2df373176ce53519e6284e2a2950d6546ffa8252600260205260408220335f5260205260ff60405f2054161561332d57819073__$814afb47376584aba011a78cdc2d692ed8$__90813b1561165f57829060c460405180948193633dc31d3560e01b83526016600484015260126024840152600f6044840152601560648401526004356084840152151560a48301525af480156106cc576106b95750f35b60405163667f86ef60e01b8152600490fd5b50346106c95761334e366143ae565b91613374604061336083969496614917565b9383815260146020522093845495866153ec565b929091613384612f8284866148cd565b94835b85811061339d57604051806109ca8a8a836143c8565b806133cf6133c5866133b160019587614a42565b868060a01b0391549060031b1c168761541e565b6129a488846148cd565b5001613387565b50346106c95760203660031901126106c9576020906040906001600160a01b036133fe6141b6565b168152600983522054604051908152f35b50346106c957806003193601126106c95760206040517f4848aa3d2c0568bab3ca9720f91818ee0957e95426fa0627cc4809e2e5ed8be08152f35b50346106c9576020806003193601126105d5576004358252601781526003604083200160405192838383549182815201908193835284832090835b8181106134d9575050508461349b9103856142bc565b60405193838594850191818652518092526040850193925b8281106134c257505050500390f35b8351855286955093810193928101926001016134b3565b825484529286019260019283019201613485565b50346106c95760403660031901126106c9576135076141cc565b5f80516020615d18833981519152808352600260205260408320335f5260205260ff60405f2054161561094257506001600160a01b0381161561087157610d0d90600435615107565b50346106c957806003193601126106c9576020600854604051908152f35b50346106c95760203660031901126106c957602061358d600435614917565b61359a60405180926143a1565bf35b506020806003193601126105d557600435905f80516020615cb883398151915283526002815260408320335f52815260ff60405f20541615610c8b57818352600f8152604083206001908101549091906001600160a01b03908116156106fc57838552600f825280836040872001541633141590816137c7575b506106dc5760ff600354166105c357828452600f8152604084209060ff8383015460a01c16156137b55760028201805486526012825260ff84604088200154166137a3576008543403613791577f23b030b624f9a859e5de132dc43111326772af52519ad6a8b489a2589ebb51b6926060926136936011546148ee565b95866011558689526012825260408920908882558082019060ff198254161790558663ffffffff94856006860154169260058101938454908063ffffffff198316178655600c54600e84019061ffff60401b82549160401b169061ffff60401b191617905560096001600160401b039801906bffffffffffffffff000000006137218a8454168b42166148fc565b891b169161375683836001600160601b031987161717808a558b808f6001600160401b03901b945460401c16918c1c166148fc565b8c1b16926001600160601b0360a01b16171717845560063491015555549060405193821684528282821c1690840152831c166040820152a380f35b60405163ce8338ed60e01b8152600490fd5b6040516319417b1d60e21b8152600490fd5b60405163367fb6df60e01b8152600490fd5b90508454163314155f613616565b50346106c957806003193601126106c957602061ffff600c5416604051908152f35b50346106c957806003193601126106c95760206040517f29506aefcad842b278006328e8bc2ba1ebfc54b3dea466394ad6a7fd82d164508152f35b5060603660031901126106c9576004356024359060ff600354166105c35761385933615166565b5f80516020615cf8833981519152546040516382027b6d60e01b81526004810184905233602482015290602090829060449082906001600160a01b03165afa9081156118d95784916138d4575b50156138c257610d0d916138b98261519e565b604435916151cb565b604051631a93b31b60e31b8152600490fd5b90506020813d602011613907575b816138ef602093836142bc565b8101031261071257518015158103610712575f6138a6565b3d91506138e2565b50346106c95760203660031901126106c957604061392b6141b6565b917f4848aa3d2c0568bab3ca9720f91818ee0957e95426fa0627cc4809e2e5ed8be081526002602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b50346106c957806003193601126106c9576020600b54604051908152f35b50346106c95760603660031901126106c9576139af6141b6565b6139b76141cc565b90604435917ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a009283549160ff8360401c1615936001600160401b03841680159081613c8b575b6001149081613c81575b159081613c78575b50613c665767ffffffffffffffff1984811660011787559385613c47575b506001600160a01b038181169490939085158015613c3d575b61087157811561057b5762093a8091896060604051613a6481614233565b828152826020820152826040820152015260405196613a8288614233565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9889815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac93849101526001600160601b0360a01b9a5f80516020615cf8833981519152908c8254161790555f80516020615cd8833981519152908b8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702908a8254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039089825416179055878b5416178a55613b8884614e52565b613b9184614ed5565b613b9a84614f58565b613ba384614fee565b613bac84615071565b603c6004556201518082600a541617600a55600b55601e541617601e55600c549062010000600160b01b039060101b169062010000600160b01b03191617600c5516906007541617600755613bff575080f35b68ff00000000000000001981541690557fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2602060405160018152a180f35b5084841615613a46565b68ffffffffffffffffff1916680100000000000000011786555f613a2d565b60405163f92ee8a960e01b8152600490fd5b9050155f613a0f565b303b159150613a07565b8691506139fd565b50346106c95760203660031901126106c957600435801515809103610d86577f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a808352600260205260408320335f5260205260ff60405f20541615610942575060ff196003541660ff8216176003557f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b8280a280f35b50346106c957613d383661434c565b6007549091906001600160a01b03163303611cf557839273__$10b5e16d21b500a339f4bc33412f83d9f1$__803b15610c87578492613db2926106a86040519687958694859462f5aaab60e21b8652601260048701526013602487015260186044870152606486015260c0608486015260c4850190614785565b8381036003190160a485015290614785565b5034610d8657613dd33661434c565b600754909291906001600160a01b03163303611cf55773__$f197484550e015e00098403dda736b50b0$__6001600160401b03600a541691813b15610d86575f93613e5a93613e6c6040519788968795869563611c747b60e11b875260126004880152600f602488015260176044880152606487015260e0608487015260e4860190614785565b8481036003190160a486015290614785565b9060c483015203915af480156118f357613e84575080f35b613e8e915061420c565b005b34610d86575f366003190112610d86576020601154604051908152f35b34610d8657602080600319360112610d8657600435905f80516020615cb88339815191525f526002815260405f20335f52815260ff60405f20541615610c8b575f82815260128252604080822054808352600f84529120600101546001600160a01b039291908316156106fc575f52600f815281600160405f2001541633141580613fee575b6106dc5760ff600354166105c357825f526012815260405f20601081019260ff8454168015613fe0575b613fce5760ff600183015416613fa4575b505050600160ff1982541617905533907f839b828a70e689fbcd4e555a39b6eb75b3a2c8cacb4f7ad0f492d77d1d2880ee5f80a3005b600f613fc693613fb387614da3565b93545f5252600160405f20015416614def565b828080613f6e565b6040516320c59fc360e21b8152600490fd5b5060ff600b83015416613f5d565b50815f5416331415613f33565b34610d86576020366003190112610d86576140146141e2565b335f9081527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f80516020615d188339815191529060ff161561094257506001600160401b038082169182156140c057601e54604080516001600160401b0394831685168152929093166020830152917f058beba43e42255b14c31084477cff657015b147fa3bc869d889c25c40d724db91a167ffffffffffffffff191617601e55005b60405163b846227d60e01b8152600490fd5b34610d86576020366003190112610d86576001600160a01b036140f36141b6565b165f52601a60205260c060405f208054906002600182015491015463ffffffff916040519384526020840152818116604084015260ff8160201c1615156060840152818160281c16608084015260481c1660a0820152f35b34610d86576020366003190112610d86576004355f52601260205260405f209060ff600b83015416156141a757606082600861418682614d79565b9101549061419481836148cd565b9060405192835260208301526040820152f35b636f84ec9160e01b8152600490fd5b600435906001600160a01b0382168203610d8657565b602435906001600160a01b0382168203610d8657565b600435906001600160401b0382168203610d8657565b35906001600160401b0382168203610d8657565b6001600160401b03811161421f57604052565b634e487b7160e01b5f52604160045260245ffd5b608081019081106001600160401b0382111761421f57604052565b61012081019081106001600160401b0382111761421f57604052565b60a081019081106001600160401b0382111761421f57604052565b61010081019081106001600160401b0382111761421f57604052565b60c081019081106001600160401b0382111761421f57604052565b90601f801991011681019081106001600160401b0382111761421f57604052565b6001600160401b03811161421f57601f01601f191660200190565b929192614304826142dd565b9161431260405193846142bc565b829481845281830111610d86578281602093845f960137010152565b9080601f83011215610d8657816020614349933591016142f8565b90565b6060600319820112610d8657600435916001600160401b03602435818111610d86578361437b9160040161432e565b92604435918211610d86576143499160040161432e565b602435908115158203610d8657565b90600682101561193d5752565b6060906003190112610d8657600435906024359060443590565b9291906040906040850160408652815180915260609160608701926020809201945f915b84831061440157505050505060209150930152565b90919293948460c06001926144518a5180518352858060a01b0385820151168584015287810151888401528681015115158784015260808082015115159084015260a080910151908301906143a1565b0197019301919095949392956143ec565b9181601f84011215610d86578235916001600160401b038311610d865760208381860195010111610d8657565b90604051915f9080549160018360011c9060018516938415614552575b602095868410861461453e57838952889590811561451c57506001146144de575b5050506144dc925003836142bc565b565b5f90815285812095935091905b8183106145045750506144dc93508201015f80806144cd565b855488840185015294850194879450918301916144eb565b925050506144dc94925060ff191682840152151560051b8201015f80806144cd565b634e487b7160e01b5f52602260045260245ffd5b91607f16916144ac565b906040916040518093825492838352602091828401915f52825f20945f915b81600784011061468e57506144dc95549184828210614678575b828210614660575b828210614647575b82821061462e575b828210614615575b8282106145fc575b8282106145e3575b50106145d6575b50905003836142bc565b60e01c815201805f6145cc565b6001919463ffffffff8560c01c168152019301846145c5565b6001919463ffffffff8560a01c168152019301846145bd565b6001919463ffffffff8560801c168152019301846145b5565b6001919463ffffffff8560601c168152019301846145ad565b6001919463ffffffff8560401c168152019301846145a5565b6001919463ffffffff85831c1681520193018461459d565b6001919463ffffffff8516815201930184614595565b865463ffffffff808216865281871c81168688015281831c811686840152606082811c821690870152608082811c82169087015260a082811c82169087015260c082811c9091169086015260e090811c90850152600190960195889550610100909301926008929092019161457b565b9060405161470b81614285565b80926147168161448f565b825260ff600182015416600281101561193d5760e09160069160208501526147406002820161455c565b604085015263ffffffff600382015416606085015260048101546080850152600581015460a085015201546001600160401b039081811660c085015260401c16910152565b91908251928382525f5b8481106147af575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161478f565b90600282101561193d5752565b9081518082526020808093019301915f5b8281106147ef575050505090565b835163ffffffff16855293810193928101926001016147e1565b9060e0614847614823610100855190808652850190614785565b614835602086015160208601906147c3565b604085015184820360408601526147d0565b9263ffffffff60608201511660608401526080810151608084015260a081015160a08401528160c0820151916001600160401b0380931660c086015201511691015290565b9181601f84011215610d86578235916001600160401b038311610d86576020808501948460051b010111610d8657565b359063ffffffff82168203610d8657565b919082039182116148da57565b634e487b7160e01b5f52601160045260245ffd5b5f1981146148da5760010190565b9190916001600160401b03808094169116019182116148da57565b805f52601260205260405f208054156113025760108101549160ff8316801561499d575b6149955760ff60018301541661498e575f52601660205261495e60405f206153c6565b61498757600b015460ff166149815760081c60ff1661497c57600190565b600290565b50600390565b5050600590565b5050505f90565b505050600490565b506149a782615386565b61493b565b6001600160401b03811161421f5760051b60200190565b604051906149d0826142a1565b5f60a0838281528260208201528260408201528260608201528260808201520152565b906149fd826149ac565b614a0a60405191826142bc565b8281528092614a1b601f19916149ac565b01905f5b828110614a2b57505050565b602090614a366149c3565b82828501015201614a1f565b8054821015614a57575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b8051821015614a575760209160051b010190565b908060209392818452848401375f828201840152601f01601f1916010190565b5f52601260205260405f209081545f52600f60205260049060ff8260405f200154166002811015614b8257614b7257600b8301549160ff831615614b6357601584015460ff811615614b4f576001600160401b039060081c1693606485029480860460641490151715614b3c5760030154908115614b295750600193049160081c63ffffffff1690565b601290634e487b7160e01b5f525260245ffd5b601182634e487b7160e01b5f525260245ffd5b505091505f9163ffffffff5f9260081c1690565b604051636f84ec9160e01b8152fd5b50604051637affbf7760e11b8152fd5b602183634e487b7160e01b5f525260245ffd5b919082018092116148da57565b600682101561193d5752565b9190808252602080920192915f5b828110614bca575050505090565b833585529381019392810192600101614bbc565b905f915f52602092600f602052600592600560405f2001928354915b60ff8082169184831080614c28575b15614c1d575081146148da57600101614bfa565b975050505050915050565b5084811015614a5757865f52885f2063ffffffff80918360031c015460e0848c1b161c169085161015614c09565b90610100823592601e19813603019384811215610d8657810180359260208092016001600160401b0394858111610d86578036038213610d865782614c9f938852870191614a7f565b94818301356002811015610d8657614cba90838701906147c3565b604083013590811215610d8657820190808235920195848311610d86578260051b36038713610d8657858103604087015282815281019591905f5b828110614d53575050505090614d4c60e08363ffffffff614d1960608497016148bc565b1660608701526080810135608087015260a081013560a087015283614d4060c083016141f8565b1660c0870152016141f8565b1691015290565b90919296828060019263ffffffff614d6a8c6148bc565b16815201980193929101614cf5565b61ffff600e600883015492015460401c16908181029181830414901517156148da57612710900490565b90815f52601260205260405f20916001830160ff19815416905560068301925f8454945554907fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe5f80a3565b8115614e4e575f918291829182916001600160a01b03165af13d15614e49573d614e18816142dd565b90614e2660405192836142bc565b81525f60203d92013e5b15614e3757565b6040516312171d8360e31b8152600490fd5b614e30565b5050565b6001600160a01b03165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f80516020615d18833981519152919060ff16614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b6001600160a01b03165f8181527fa9fc55014f5d7cb0915e5ed13e09bb279229db48b5282f72b9cd9d6824cbc86b60205260409020545f80516020615cb8833981519152919060ff16614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b6001600160a01b03165f8181527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a919060ff16614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b6001600160a01b03165f8181527fc0a3be63cc7de3909d43a0d8fc5a3c6357ea79202489f4985e753b0fa052d7c360205260409020545f80516020615c98833981519152919060ff16614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b6001600160a01b03165f8181527f824854fce2b26a685510a23e94ce095a99e4d883af92f3bad8a69b2ed000be4160205260409020547f16ceee8289685dd2a02b9c8ae81d2df373176ce53519e6284e2a2950d6546ffa919060ff16614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f205416614e4e57815f52600260205260405f20815f5260205260405f20600160ff1982541617905533915f80516020615c788339815191525f80a4565b6001600160a01b03165f8181526005602052604090205460045461518991614b95565b4210611663575f5260056020524260405f2055565b5f52601260205260405f20545f52600f60205260ff600460405f20015416600281101561193d5761192b57565b906151d63383615992565b82340361535057815f526012602052604090815f20545f52600f602052815f2060078101548510908115615330575b5061531f576001600160401b0380851161530e57615224908516615b4e565b9073__$f19a1977eaf0bb70b4dc631d378cc52201$__91823b15610d86576101645f928551948593849263095c33e760e21b845260126004850152600f60248501526013604485015260146064850152601c60848501528960a48501523360c485015260e484015261010483015288610124830152846101448301525af48015615304576152f5575b50815f5260126020526002815f20016152c7848254614b95565b9055519182527fd4aaced2bc9949b1c53390a9b8adc8646fb9eacfc53f6379cadc40386cc7f1b060203393a3565b6152fe9061420c565b5f6152ad565b82513d5f823e3d90fd5b82516307388e8560e41b8152600490fd5b81516307388e8560e41b8152600490fd5b60080154801515915081615346575b505f615205565b905084115f61533f565b60405162461bcd60e51b815260206004820152600e60248201526d0acc2d8eacabe9ad2e6dac2e8c6d60931b6044820152606490fd5b60ff6001820154161590816153b6575b8161539f575090565b6001600160401b0391506005015460601c16421190565b600b81015460ff16159150615396565b6002015460ff811690816153d8575090565b6001600160401b03915060081c1642111590565b909291818410156154175761540184836148cd565b81111561540c575090565b614349915083614b95565b5091508190565b916143499161542b6149c3565b50835f52601360205260405f209060018060a01b031690815f5260205260405f20600281015460ff60068160048501541693015416926040519661546e886142a1565b875260208701526040860152151560608501521515608084015260a08301614ba2565b805f52601260205260405f209060ff600b83015416156105b1575f5260166020526154be60405f206153c6565b61058d576001600160401b03600e8201541642111561550257600f81018054156154e6575050565b6154f26154fd92614d79565b809155600d54614b95565b600d55565b604051631202122d60e31b8152600490fd5b6001600160a01b03165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc560205260409020545f80516020615d18833981519152919060ff1615614e4e57815f52600260205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b90815f52600260205260405f209060018060a01b031690815f5260205260ff60405f20541615614e4e57815f52600260205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b936156539061564b61569c979395946156318789615992565b61563a8861519e565b6156453686856142f8565b90615a59565b9236916142f8565b60018060a01b0393845f80516020615cd883398151915254166040948551988994859263196d0b9b60e01b84526004840152336024840152608060448401526084830190614785565b9160056064830152815f602096879503925af196871561584e575f97615871575b50845f80516020615cf88339815191525416803b15610d86578451630f8e573b60e21b815260048101899052336024820152905f908290604490829084905af1801561586757615858575b5073__$f19a1977eaf0bb70b4dc631d378cc52201$__9484519163097e137160e11b835260126004840152600f602484015260096044840152876064840152169687608483015260a4820152818160c481885af491821561584e575f92615820575b5050833b15610d86576101645f928451958693849263095c33e760e21b845260126004850152600f60248501526013604485015260146064850152601c60848501528960a48501528a60c485015260e48401526101048301528461012483015260016101448301525af49081156158175750615808575b507f4fe76e022e517b2d752a1d85c1af0250d02ec79793d70d80ea4db16f4ea3d1995f80a3565b6158119061420c565b5f6157e1565b513d5f823e3d90fd5b90809250813d8311615847575b61583781836142bc565b81010312610d8657515f8061576a565b503d61582d565b84513d5f823e3d90fd5b6158619061420c565b5f615708565b85513d5f823e3d90fd5b9096508181813d8311615899575b61588981836142bc565b81010312610d865751955f6156bd565b503d61587f565b428111156158b3576143499042906148cd565b505f90565b5f52601260205260405f2060ff6001820154166137a35760ff600b820154166112f05760ff601082015416615908576158f090615386565b6158f657565b60405163c85c0b0760e01b8152600490fd5b60405163a194cabd60e01b8152600490fd5b73__$07cb1d6197558088a47e21bfbeb435e98e$__91823b15610d865760e45f9260405194859384926372bdbdfb60e01b845260126004850152600f602485015260156044850152601460648501526013608485015260a484015260c48301525af480156118f3576159895750565b6144dc9061420c565b805f526020916012835260409160ff6001845f2001541615615a4857805f52601284526001600160401b036005845f200154851c164211615a37575f908152601384528281206001600160a01b039283168252845282902054166159f4575050565b60649250519062461bcd60e51b82526004820152601a60248201527f416c72656164795f5072656469637465645f496e5f42617463680000000000006044820152fd5b825163764b8e3360e11b8152600490fd5b825163f84b8daf60e01b8152600490fd5b5f80516020615cd88339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615ab1906084830190614785565b6004606483015203925af19081156118f3575f91615b1c575b5080925f80516020615cf88339815191525416803b15610d8657604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156118f3576159895750565b90506020813d602011615b46575b81615b37602093836142bc565b81010312610d8657515f615aca565b3d9150615b2a565b5f80516020615cd883398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156118f3575f91615ba1575090565b90506020813d602011615bc8575b81615bbc602093836142bc565b81010312610d86575190565b3d9150615baf565b5f80516020615cd883398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156118f3575f91615ba1575090565b5f80516020615cf8833981519152546001600160a01b031691823b15610d8657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101615b0b56fe2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d0752e466598c5e4408cbbaf840ea4dbd39f3e0aa1ba17a69b571858fba5698291f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a";
+
+type AIPredictMarketFHEConstructorParams =
+  | [linkLibraryAddresses: AIPredictMarketFHELibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AIPredictMarketFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class AIPredictMarketFHE__factory extends ContractFactory {
+  constructor(...args: AIPredictMarketFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        AIPredictMarketFHE__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: AIPredictMarketFHELibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$d24f3a2396e9073c5ff00f1c74383d3c82\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketRegistry.sol:MarketRegistry"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$814afb47376584aba011a78cdc2d692ed8\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketDisputes.sol:MarketDisputes"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$07cb1d6197558088a47e21bfbeb435e98e\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketSettlement.sol:MarketSettlement"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$f197484550e015e00098403dda736b50b0\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketEvaluation.sol:MarketEvaluation"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$83108ea632e4d3c5156d110069b5dbd13f\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketBalances.sol:MarketBalances"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$10b5e16d21b500a339f4bc33412f83d9f1\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketClaims.sol:MarketClaims"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$e63def645e139b4e06d50cec7b2679f2e1\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketIntents.sol:MarketIntents"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$cb07e3c494731ddb2c5be5e6579bf7930a\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketReputation.sol:MarketReputation"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$f19a1977eaf0bb70b4dc631d378cc52201\\$__", "g"),
+      linkLibraryAddresses["contracts/MarketPredictions.sol:MarketPredictions"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AIPredictMarketFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AIPredictMarketFHE__factory {
+    return super.connect(runner) as AIPredictMarketFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AIPredictMarketFHEInterface {
+    return new Interface(_abi) as AIPredictMarketFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AIPredictMarketFHE {
+    return new Contract(address, _abi, runner) as unknown as AIPredictMarketFHE;
+  }
+}
+
+export interface AIPredictMarketFHELibraryAddresses {
+  ["contracts/MarketRegistry.sol:MarketRegistry"]: string;
+  ["contracts/MarketDisputes.sol:MarketDisputes"]: string;
+  ["contracts/MarketSettlement.sol:MarketSettlement"]: string;
+  ["contracts/MarketEvaluation.sol:MarketEvaluation"]: string;
+  ["contracts/MarketBalances.sol:MarketBalances"]: string;
+  ["contracts/MarketClaims.sol:MarketClaims"]: string;
+  ["contracts/MarketIntents.sol:MarketIntents"]: string;
+  ["contracts/MarketReputation.sol:MarketReputation"]: string;
+  ["contracts/MarketPredictions.sol:MarketPredictions"]: string;
+}
@@ -0,0 +1,143 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketBalances,
+  MarketBalancesInterface,
+} from "../../contracts/MarketBalances";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "WithdrawalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c57610d1290816100218239308160080152f35b5f80fdfe604060808152307f00000000000000000000000000000000000000000000000000000000000000001460049182361015610037575f80fd5b5f915f3560e01c80636bd34296146103785763ef9fa34214610057575f80fd5b61037457600319608036820112610370576024359067ffffffffffffffff906044358281116102b85761008d9036908801610aef565b926064358381116102bc576100a59036908901610aef565b91818752602094883586528688209260ff845460a01c16610360578089527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852888a20541561035057818a52875287892092885180858a8297549384815201908d528a8d20928d5b8c82821061033a5750505061012692500385610a7b565b82519384890194858a11610327578a01809511610314578b8a8a928d82519383858a519b888c019c8d818b850161015c92610b70565b82019089820152038781018752016101749086610a7b565b600160a01b600190039b8c7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970354169451978896879586946378542ead60e01b8652850160609052606485016101c891610cd2565b828582030160248601526101db91610b91565b908382030160448401526101ee91610b91565b03925af190811561030a578a916102d0575b50156102c0579086917f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8a80a28051810103126102bc57519283168093036102b857633b9aca00928381029381850414901517156102a5577f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d59495965061029a83838354600160a01b60ff60a01b19821617855516610b0d565b54169351908152a280f35b634e487b7160e01b865260118752602486fd5b8580fd5b8680fd5b875163cf6c44e960e01b81528a90fd5b90508781813d8311610303575b6102e78183610a7b565b810103126102ff575180151581036102ff575f610200565b8980fd5b503d6102dd565b89513d8c823e3d90fd5b634e487b7160e01b8b5260118c5260248bfd5b634e487b7160e01b8c5260118d5260248cfd5b855484526001958601958a95509301920161010f565b885163d66ca67560e01b81528b90fd5b875163faf8ed4f60e01b81528a90fd5b8280fd5b5080fd5b5083906109135760803660031901126109135780356024906064359367ffffffffffffffff80861161091357366023870112156109135785850135818111610913573685828901011161091357610431966103d69186369201610ab9565b9060018060a01b03937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701858154168551809a819663196d0b9b60e01b83526044358c840152338b840152608060448401526084830190610b91565b9160056064830152815f602098899503925af1988915610a49575f99610a1a575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970098868a5416803b15610913578651630f8e573b60e21b8152808b0183815233602082015290915f9183919082908490829060400103925af18015610a10576109f9575b50868b9392848b93335f52858952888a5f20548b819785859186156109e9575b8415998a6109d4575b89549451631d44e90160e21b815291820193845260208401959095526001600160f81b0319909716604083015286939290921691839182906060015b03925af19182156109ca57918d8b8d8f9a9998979695948d958b95610989575b50918a916064949361054c610bb6565b9189541692519d8e978896637702dcff60e01b885287015285015260448401525af195861561097f57889392918b918798610948575b50879392610938575b8715610928575b548a516303056db360e31b81528e810193845260208401949094526001600160f81b0319871660408401529295869392849003606001928492165af191821561091e578b926108eb575b506105e73083610c56565b6105f13383610c56565b335f528452845f20556106043082610c56565b835190848201828110848211176108d95785526001906001835284830190853683378351156108c75781527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00928b8885549c5416803b1561037457818b610687928a8f84908e5196879586948593637d6e912360e11b855284015282018a610cd2565b03925af180156108a9576108b3575b50887f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610374578851633263b83b60e01b8152808d018e90526060818d015290829082908183816106ef606482018a610cd2565b63b05c7d9160e01b604483015203925af180156108a957610891575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808752878d2054610881578b8d528652868c2090519185831161086f5768010000000000000000831161086f57815483835583888f838310610840575b50505050908c52858c208c5b83811061082f57505050505080545f19811461081d5760010190558251958684019182118783101761080b5750825233855280850193878552868852359052852092511682549160ff60a01b9051151560a01b16916affffffffffffffffffffff60a81b161717905533907fec633583b4618456de8f6a7d1c8c87f24831d9422af8bd760673af7b7b2bce1c8380a380f35b60418691634e487b7160e01b5f52525ffd5b634e487b7160e01b8a5260118852868afd5b825182820155918701918401610779565b8581528a812093840193889350870191505b838210610864578692508a915061076d565b81550185908f610852565b634e487b7160e01b8d5260418b52898dfd5b8751633f06d22b60e01b81528b90fd5b61089a90610a53565b6108a5578b8d61070b565b8b80fd5b89513d84823e3d90fd5b6108bc90610a53565b6108a5578b8d610696565b634e487b7160e01b8c5260328a52888cfd5b8760418a634e487b7160e01b5f52525ffd5b9091508481813d8311610917575b6109038183610a7b565b810103126109135751908b6105dc565b5f80fd5b503d6108f9565b86513d8d823e3d90fd5b9250610932610bb6565b92610592565b9150610942610bb6565b9161058b565b9492965096505082813d8311610978575b6109638183610a7b565b81010312610913578c9389889351965f610582565b503d610959565b89513d87823e3d90fd5b9b5099505050505086813d83116109c3575b6109a58183610a7b565b810103126109135794518a958e95909189918e908c908e908a61053c565b503d61099b565b8a513d89823e3d90fd5b945061051c6109e1610bb6565b9590506104e0565b91506109f3610bb6565b916104d7565b610a069193929b50610a53565b5f999091866104b7565b87513d5f823e3d90fd5b9098508381813d8311610a42575b610a328183610a7b565b810103126109135751978a610452565b503d610a28565b85513d5f823e3d90fd5b67ffffffffffffffff8111610a6757604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610a6757604052565b67ffffffffffffffff8111610a6757601f01601f191660200190565b929192610ac582610a9d565b91610ad36040519384610a7b565b829481845281830111610913578281602093845f960137010152565b9080601f8301121561091357816020610b0a93359101610ab9565b90565b8115610b6c575f918291829182916001600160a01b03165af13d15610b67573d610b3681610a9d565b90610b446040519283610a7b565b81525f60203d92013e5b15610b5557565b6040516312171d8360e31b8152600490fd5b610b4e565b5050565b5f5b838110610b815750505f910152565b8181015183820152602001610b72565b90602091610baa81518092818552858086019101610b70565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610c4b575f91610c1c575090565b90506020813d602011610c43575b81610c3760209383610a7b565b81010312610913575190565b3d9150610c2a565b6040513d5f823e3d90fd5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561091357604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610c4b57610cc75750565b610cd090610a53565b565b9081518082526020808093019301915f5b828110610cf1575050505090565b835185529381019392810192600101610ce356fea164736f6c6343000818000a";
+
+type MarketBalancesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketBalancesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketBalances__factory extends ContractFactory {
+  constructor(...args: MarketBalancesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketBalances & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketBalances__factory {
+    return super.connect(runner) as MarketBalances__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketBalancesInterface {
+    return new Interface(_abi) as MarketBalancesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketBalances {
+    return new Contract(address, _abi, runner) as unknown as MarketBalances;
+  }
+}
@@ -0,0 +1,209 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketClaims,
+  MarketClaimsInterface,
+} from "../../contracts/MarketClaims";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoPrediction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+    ],
+    name: "ClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+    ],
+    name: "ConfidentialPayoutCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "predictor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardClaimed",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c576110ed90816100218239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c806303d6aaac146101475780631539ee2f1461008a5763857b52e91461005d575f80fd5b6100865760a0366003190112610086576100846084356064356044356024356004356105ab565b005b5f80fd5b5061008657606036600319011261008657604435805f5260043560205260405f20335f5260205260026100bf60405f20610ade565b600481015460ff1615610135576003810154801561011e575b6100e46100ed91610e45565b33602435610b2c565b0154906040519182527f7a482fdeb6bc9a1376f597068a214a7a39472bb2eff1b8cad21ba04f49ddca1b60203393a3005b506100ed6100e461012d610fa8565b9150506100d8565b6101428282015433610a7b565b6100ed565b506100865760c03660031901126100865767ffffffffffffffff6084358181116100865761017990369060040161051c565b9060a4359081116100865761019290369060040161051c565b906064355f5260443560205260405f209060019260ff600184015460a01c166104a4576064355f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260405f205415610492576064355f5260205260405f20936040519081958691602082549485815201915f5260205f20935f5b81811061047a57505050610227925003856104de565b8151908160200180602011610466576040830110610466576102e291602091610277604080518094828951610262818c8b8088019101610dcc565b830191018782015203858101855201836104de565b6102d05f60018060a01b03986102f48a7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190610ded565b85810360031901602487015290610e20565b83810360031901604485015290610e20565b03925af190811561045b575f9161042c575b501561041a57610346906064357f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a260208082518301019101610562565b60018201805460ff60a01b198116600160a01b179091555f939161039c575b5060207f24b5efa61dd1cfc659205a97fb8ed868f3cb8c81922bab2b96423e5de1de2cb791600184549401541693604051908152a3005b925060207f24b5efa61dd1cfc659205a97fb8ed868f3cb8c81922bab2b96423e5de1de2cb79183545f52600435825261041361040c60405f2060243585528360405f20981697885f528552600c610403600260405f2001546103fd84610a65565b9061057a565b9101549061058d565b8096610a7b565b9150610365565b60405163cf6c44e960e01b8152600490fd5b61044e915060203d602011610454575b61044681836104de565b810190610562565b5f610306565b503d61043c565b6040513d5f823e3d90fd5b634e487b7160e01b5f52601160045260245ffd5b85548452948201948994506020909301928201610211565b60405163d66ca67560e01b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b67ffffffffffffffff81116104ca57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176104ca57604052565b67ffffffffffffffff81116104ca57601f01601f191660200190565b81601f820112156100865780359061053382610500565b9261054160405194856104de565b8284526020838301011161008657815f926020809301838601378301015290565b90816020910312610086575180151581036100865790565b8181029291811591840414171561046657565b8115610597570490565b634e487b7160e01b5f52601260045260245ffd5b93929190935f94845f526020918252604093845f20918352845f20335f5283526105d6855f20610ade565b9160049160ff83850154166109985750600c8101541561092c575084519467ffffffffffffffff86820181811188821017610919578252600187526005858801948636873701548751156109065784527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005490986001600160a01b0396918716929190833b15610086578551637d6e912360e11b81525f816024968c8b8301528183816106a88b820189610ded565b03925af180156108fc576108e9575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156108e5578d8c8851928391633263b83b60e01b83528b83015260608883015281838161070e6064820189610ded565b6315fc9eaf60e01b604483015203925af180156108d957908e916108c1575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a52868e20546108b1578b8e528952858d2090519185831161089f5768010000000000000000831161089f578d838b845492828655838310610871575b50505050908d52888d208d5b83811061085f575050505080545f19811461084d576001019055825193606085019283118584101761083c5750509060019291815287825284820195338752818301958a8752888b52528820905181550192511682549160ff60a01b9051151560a01b16916affffffffffffffffffffff60a81b16171790557f5dcb8afe8091c7151b47650185c87f87dcb34ff3b42c39c5f39b546f89f82cd8339380a4565b604190634e487b7160e01b5f52525ffd5b634e487b7160e01b8c5260118652828cfd5b825182820155918a019160010161079c565b80925085915052848c822092830192015b82811061089257508b8591610790565b6001918155018f90610882565b634e487b7160e01b8e5260418852848efd5b8651633f06d22b60e01b81528890fd5b6108ca906104b6565b6108d5578c5f61072d565b8c80fd5b8e8851903d90823e3d90fd5b8d80fd5b6108f4919d506104b6565b5f9b5f6106b7565b87513d5f823e3d90fd5b603284634e487b7160e01b5f525260245ffd5b604184634e487b7160e01b5f525260245ffd5b7f7a482fdeb6bc9a1376f597068a214a7a39472bb2eff1b8cad21ba04f49ddca1b9597508092939450600f91500154155f1461097c575060020154935b6109738533610a7b565b519384523393a3565b600861040360026109929401546103fd84610a65565b93610969565b94506109a991969750918392610c1d565b5f805160206110c18339815191525485516307227b9160e21b81529687019190915260056024870152859060449082905f906001600160a01b03165af1928315610a5c57505f92610a2a575b50610a0292503390610b2c565b33907f11011a52cf50f1944b4e2c29854cb1024646bd4742d915612706518cd9efb3765f80a3565b90915082813d8311610a55575b610a4181836104de565b8101031261008657610a029151905f6109f5565b503d610a37565b513d5f823e3d90fd5b600f600882015491015481039081116104665790565b8115610ada575f918291829182916001600160a01b03165af13d15610ad5573d610aa481610500565b90610ab260405192836104de565b81525f60203d92013e5b15610ac357565b6040516312171d8360e31b8152600490fd5b610abc565b5050565b80546001600160a01b031615610b1a5760068101805460ff8116610b085760ff1916600117905590565b604051630c8d9eab60e31b8152600490fd5b604051630ee6593160e21b8152600490fd5b909160018060a01b039283811690815f5260209284845260405f205495818715610c06575b9085929115610bf2575b6064905f805160206110c18339815191525416975f604051998a94859363022f65e760e31b8552600485015260248401528160448401525af194851561045b575f95610bc1575b50610bb790610bb1308761104e565b8561104e565b5f525260405f2055565b9094508281813d8311610beb575b610bd981836104de565b81010312610086575193610bb7610ba2565b503d610bcf565b90506064610bfe610fa8565b919050610b5b565b9650908491610c13610fa8565b9790919250610b51565b5f9160038101548015610db9575b610c3490610e45565b9160018060a01b03905f805160206110c18339815191529382855416604051916307227b9160e21b8352600483015260066024830152816044816020998a945af190811561045b575f91610d8c575b50600c820191825415610d46576005610cca606494610cb4610cbb8b9998965f966001600160801b03938491610a65565b1690610f27565b915416908015610d3857610ec8565b94015491610cd6610ffb565b9654166040519687958694637702dcff60e01b86526004860152602485015260448401525af191821561045b575f92610d0e57505090565b90809250813d8311610d31575b610d2581836104de565b81010312610086575190565b503d610d1b565b50610d41610ffb565b610ec8565b94509450505050600f810154155f14610d5d575090565b610d89916008610d796001600160801b039283610cb486610a65565b92015416908015610d3857610ec8565b90565b90508581813d8311610db2575b610da381836104de565b8101031261008657515f610c83565b503d610d99565b50610c34610dc5610fa8565b9050610c2b565b5f5b838110610ddd5750505f910152565b8181015183820152602001610dce565b9081518082526020808093019301915f5b828110610e0c575050505090565b835185529381019392810192600101610dfe565b90602091610e3981518092818552858086019101610dcc565b601f01601f1916010190565b5f805160206110c183398151915254604051635a53accb60e01b81526004810192909252633b9aca006024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561045b575f91610ea5575090565b90506020813d602011610ec0575b81610d25602093836104de565b3d9150610eb3565b5f805160206110c183398151915254604051635a53accb60e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af190811561045b575f91610ea5575090565b6001600160801b03916020918015610f96575b5f805160206110c183398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af190811561045b575f91610ea5575090565b506064610fa1610ffb565b9050610f3a565b5f805160206110c183398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af190811561045b575f91610ea5575090565b5f805160206110c183398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af190811561045b575f91610ea5575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b15610086575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af1801561045b576110b55750565b6110be906104b6565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type MarketClaimsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketClaimsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketClaims__factory extends ContractFactory {
+  constructor(...args: MarketClaimsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketClaims & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketClaims__factory {
+    return super.connect(runner) as MarketClaims__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketClaimsInterface {
+    return new Interface(_abi) as MarketClaimsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketClaims {
+    return new Contract(address, _abi, runner) as unknown as MarketClaims;
+  }
+}
@@ -0,0 +1,126 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketDisputes,
+  MarketDisputesInterface,
+} from "../../contracts/MarketDisputes";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "NoOpenDispute",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ResolutionPeriodActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeDismissed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "arbitrator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c5761037990816100218239308160090152f35b5f80fdfe60806040818152307f00000000000000000000000000000000000000000000000000000000000000001460049283361015610038575f80fd5b5f3560e01c90816313df9a9f146102095750633dc31d3514610058575f80fd5b6102055760c0366003190112610205576084359060a435928315159384810361020557835f528135602052825f2090600282015460ff811690816101ed575b50156101dd5760028201805460ff191690556001820180545f90915592855f52602435602052845f209182545f52604435602052855f20905f146101bc57600990600b840160ff198154169055600e840167ffffffffffffffff19815416905567ffffffffffffffff9182910154871c16814216019081116101a95760058301805467ffffffffffffffff60601b191660609290921b67ffffffffffffffff60601b169190911790555f601283018190559082018190556011909101819055848152606435602052838120818155600101555461017d91906001600160a01b03166102da565b519182527f8fdd4548a8481406b6e29c0d6f25e27cd72502f79f4adf409468502e7920dabc60203393a3005b601182634e487b7160e01b5f525260245ffd5b600101546101d89493506001600160a01b031691506102da9050565b61017d565b835163b2c106c160e01b81528390fd5b67ffffffffffffffff915060081c164211155f610097565b5f80fd5b9190506102055760803660031901126102055760643592835f528035602052825f209160028301549060ff8216156102cc575060081c67ffffffffffffffff164211156102be575060028101805460ff1916905560010180545f9091557fed9ab703c71159b2e274163ea4c65fe168735531c3da4e71c6ead9eda9e8bbca9160209190845f526024358352805f20545f5260443583526102b78260018060a01b036001845f200154166102da565b51908152a2005b82516336245fd360e01b8152fd5b63b2c106c160e01b81529050fd5b8115610368575f918291829182916001600160a01b03165af13d156103635767ffffffffffffffff3d81811161034f5760405191601f8201601f19908116603f011683019081118382101761034f5760405281525f60203d92013e5b1561033d57565b6040516312171d8360e31b8152600490fd5b634e487b7160e01b5f52604160045260245ffd5b610336565b505056fea164736f6c6343000818000a";
+
+type MarketDisputesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketDisputesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketDisputes__factory extends ContractFactory {
+  constructor(...args: MarketDisputesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketDisputes & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketDisputes__factory {
+    return super.connect(runner) as MarketDisputes__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketDisputesInterface {
+    return new Interface(_abi) as MarketDisputesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketDisputes {
+    return new Contract(address, _abi, runner) as unknown as MarketDisputes;
+  }
+}
@@ -0,0 +1,185 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketEvaluation,
+  MarketEvaluationInterface,
+} from "../../contracts/MarketEvaluation";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "BatchIsCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "scoreSum",
+        type: "uint256",
+      },
+    ],
+    name: "CrowdConsensusRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "actualScore",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalStaked",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winnerCount",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c57610d0590816100218239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f905f3560e01c80632bff2dc7146105f85763c238e8f614610054575f80fd5b6105f55760031960e0368201126105f157606435906084356001600160401b0381116105ed57610088903690600401610a32565b60a4356001600160401b0381116105e9576100a7903690600401610a32565b9060c435906001600160401b03821682036105e557848652604435602052604086209260ff6002850154166105d357835494858852600435602052604088209187600d840154148015906105b7575b8015610596575b61058457601083019160ff8354168015610546575b61053457888a527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260408b20541561052257898b5260205261015a60408b20610a87565b908551806020018060201161050e5760408201106104fa57926102068c6020946102256040956101b6878d6102169b82519a826101a18d94518f9283829488019101610cb2565b830191018c820152038a81018a520188610a11565b60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541695604051998a98899788966378542ead60e01b8852606060048901526064880190610c48565b9084878303016024880152610cd3565b91848303016044850152610cd3565b03925af19081156104ef5789916104b4575b50156104a25760405190877f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8a80a260808480518101031261049e5761027f60208501610ad7565b936001600160401b0361029460408301610ad7565b976102a160608401610ae8565b906102ae60808501610ae8565b906002600160ff19828401541617910155600b8701549461ff00198154169055600168ffffffffffffffffff19958668ffffffff00000000008d60281b16911664ffffffff008b60081b16171717600b8801556001600160801b03809216600c8801551696876008870155166001600160401b034216016001600160401b03811161048a576001600160401b03600e860191166001600160401b03198254161790558051608081116103a5575b8a8a7f7faf4298038aa4e8f02495bcd212b0abe3c59cdd01a05ecc908717403e2a7ed860808c63ffffffff8d8d828e6040519586521660208501526040840152166060820152a280f35b8160a091819a98959799969a01031261048657806103c7602060a09301610ad7565b506103d460408201610ad7565b506103e160608201610ae8565b506103ee60808201610ae8565b500151956001600160401b03871691828803610482577ff436ad39a7870533a30ab94548c499d90bd99b2edfc24ebc454cf67ffdafad4d602063ffffffff9788958a94600160809d7f7faf4298038aa4e8f02495bcd212b0abe3c59cdd01a05ecc908717403e2a7ed89f6015019268ffffffffffffffff0084549260081b169116171790558152a29382959784975061035b565b8a80fd5b8980fd5b634e487b7160e01b8b52601160045260248bfd5b8880fd5b60405163cf6c44e960e01b8152600490fd5b90506020813d6020116104e7575b816104cf60209383610a11565b8101031261049e5751801515810361049e575f610237565b3d91506104c2565b6040513d8b823e3d90fd5b634e487b7160e01b8c52601160045260248cfd5b634e487b7160e01b8d52601160045260248dfd5b60405163d66ca67560e01b8152600490fd5b60405163a194cabd60e01b8152600490fd5b5060ff6001850154161580610575575b801561011257506001600160401b03600585015460601c164211610112565b5060ff600b8501541615610556565b6040516313b304fb60e21b8152600490fd5b5060018601546105b06105ab60243586610b13565b610c7b565b14156100fd565b5060018601546105cc6105ab60038901610a87565b14156100f6565b60405163faf8ed4f60e01b8152600490fd5b8580fd5b8480fd5b8380fd5b5080fd5b80fd5b506109fa5760803660031901126109fa576064355f5260043560205261062360243560405f20610b13565b61062c81610c7b565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092906001600160a01b03908116803b156109fa575f6040518092637d6e912360e11b8252602060048301528183816106ac602482018a610c48565b03925af180156109ef576109dc575b5084907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156105f157816040518092633263b83b60e01b825287600483015260606024830152818381610715606482018a610c48565b63124bd04b60e01b604483015203925af180156109d1576109bd575b508390527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260408520546109ab57838552602052604084208151906001600160401b03821161093457600160401b8211610934578054828255808310610984575b506020830190865260208620865b83811061097057505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054915f19831461095c5760018093017f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055606435855260043560205260106040862085600d8201550161010061ff001982541617905560405160808101918183106001600160401b03841117610948576003926040526064358252602082019081526040820190878252606083019485528688526044356020526040882092518355516001830155600282019051151560ff80198354169116179055019051908151916001600160401b03831161093457600160401b831161093457815483835580841061090c575b5060200190855260208520855b8381106108f95786606435877f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c8380a380f35b84906020845194019381840155016108c6565b82875284846020892092830192015b8281106109295750506108b9565b88815501859061091b565b634e487b7160e01b86526041600452602486fd5b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b85526011600452602485fd5b6001906020845194019381840155016107a4565b81875260208720908382015b81830181106109a0575050610796565b888155600101610990565b604051633f06d22b60e01b8152600490fd5b6109c6906109fe565b6105ed57835f610731565b6040513d84823e3d90fd5b6109e79195506109fe565b5f935f6106bb565b6040513d5f823e3d90fd5b5f80fd5b6001600160401b03811161094857604052565b90601f801991011681019081106001600160401b0382111761094857604052565b81601f820112156109fa578035906001600160401b0382116109485760405192610a66601f8401601f191660200185610a11565b828452602083830101116109fa57815f926020809301838601378301015290565b90604051918281549182825260209260208301915f5260205f20935f905b828210610abd57505050610abb92500383610a11565b565b855484526001958601958895509381019390910190610aa5565b519063ffffffff821682036109fa57565b51906001600160801b03821682036109fa57565b6001600160401b0381116109485760051b60200190565b600381015460051115929183610c0e575b508215610c055760ff60055b16610b53610b3d82610afc565b91610b4b6040519384610a11565b808352610afc565b602082019290601f190136843781946004938483015490845115610bf257526009820154835160011015610bdf576040840152600a820154835160021015610bdf5760608401526007820154835160031015610bdf576080840152610bb757505050565b60140154918151811015610bcc575060a00152565b603290634e487b7160e01b5f525260245ffd5b603285634e487b7160e01b5f525260245ffd5b603286634e487b7160e01b5f525260245ffd5b60ff6004610b30565b90809350545f5260205260ff600460405f200154166002811015610c345715915f610b24565b634e487b7160e01b5f52602160045260245ffd5b9081518082526020808093019301915f5b828110610c67575050505090565b835185529381019392810192600101610c59565b604051610cac81610c986020820194604086526060830190610c48565b30604083015203601f198101835282610a11565b51902090565b5f5b838110610cc35750505f910152565b8181015183820152602001610cb4565b90602091610cec81518092818552858086019101610cb2565b601f01601f191601019056fea164736f6c6343000818000a";
+
+type MarketEvaluationConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketEvaluationConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketEvaluation__factory extends ContractFactory {
+  constructor(...args: MarketEvaluationConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketEvaluation & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketEvaluation__factory {
+    return super.connect(runner) as MarketEvaluation__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketEvaluationInterface {
+    return new Interface(_abi) as MarketEvaluationInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketEvaluation {
+    return new Contract(address, _abi, runner) as unknown as MarketEvaluation;
+  }
+}
@@ -0,0 +1,108 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketIntents,
+  MarketIntentsInterface,
+} from "../../contracts/MarketIntents";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "domainSeparator",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "structHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "verify",
+    outputs: [],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001a57610419908161001f823930815050f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c80631a86b550146100505763f698da251461002f575f80fd5b5f36600319011261004c576020610044610167565b604051908152f35b5f80fd5b606036600319011261004c576004356001600160a01b038116810361004c5760443567ffffffffffffffff80821161004c573660238301121561004c57816004013590811161004c57366024828401011161004c576100fc925f602060426100b6610167565b6040519061190160f01b82526002820152602435602282015220938060246100dd8261014b565b976100eb604051998a610115565b82895201838801378501015261020e565b1561010357005b604051638baa579f60e01b8152600490fd5b90601f8019910116810190811067ffffffffffffffff82111761013757604052565b634e487b7160e01b5f52604160045260245ffd5b67ffffffffffffffff811161013757601f01601f191660200190565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f32ad8308a75ee643084756219266ed0d1da79e1d0de8baec6c95c52d93b8dfd760408201527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a082015260a0815260c0810181811067ffffffffffffffff8211176101375760405251902090565b9190823b61025d579061022091610345565b5060048110156102495715918261023657505090565b6001600160a01b03918216911614919050565b634e487b7160e01b5f52602160045260245ffd5b90916040519260209384810191630b135d3f60e11b94858452602483015260406044830152805190816064840152865f5b8381106103305750505091816102c3608482865f83819a9899829a010152601f80199101168101036064810184520182610115565b51915afa913d15610329573d6102d88161014b565b906102e66040519283610115565b81523d5f8383013e5b8361031c575b83610301575b50505090565b90809293508180518101031261004c570151145f80806102fb565b92508083511015926102f5565b60606102ef565b8181840101516084828701015201879061028e565b81519190604183036103755761036e9250602082015190606060408401519301515f1a9061037f565b9192909190565b50505f9160029190565b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411610401579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa156103f6575f516001600160a01b038116156103ec57905f905f90565b505f906001905f90565b6040513d5f823e3d90fd5b5050505f916003919056fea164736f6c6343000818000a";
+
+type MarketIntentsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketIntentsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketIntents__factory extends ContractFactory {
+  constructor(...args: MarketIntentsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketIntents & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketIntents__factory {
+    return super.connect(runner) as MarketIntents__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketIntentsInterface {
+    return new Interface(_abi) as MarketIntentsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketIntents {
+    return new Contract(address, _abi, runner) as unknown as MarketIntents;
+  }
+}
@@ -0,0 +1,115 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketRegistry,
+  MarketRegistryInterface,
+} from "../../contracts/MarketRegistry";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "InvalidMarketConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketExists",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "MarketConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "MarketCreated",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c57610e3690816100218239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b60e0905f3560e01c8063d1a03b7e146105315763d50b657614610055575f80fd5b6104fe576003196060368201126104fe576004359060249283356044359367ffffffffffffffff938486116104fe578560040191610100873603928301126104fe576100a083610c78565b835f5260209281845260405f2094898901359760029960028a10156104fe5760ff600489015416600281101561051e578a14801590610502575b610157575f9a9995949a99600580990196604483019688549c5b6100fe8989610bf8565b905081101561017d578d61012461011f836101198d8d610bf8565b90610c54565b610c2e565b90821015610169575f8b81528c9020600383901c0154828e1b8f161c63ffffffff908116911603610157576001016100f4565b6040516364d73b8f60e11b8152600490fd5b508f634e487b7160e01b5f5260326004525ffd5b508e8a8f999698949597998a5f52815260405f209660039485890194873590602219018112156104fe578a019460048601358c81116104fe57803603868801136104fe578154966001978881811c911680156104f4575b878210146104e1579081601f899796959493116104a8575b505f90601f831160011461043957958291610235975f9361042c575b5050505f19828b1b1c191690881b1790555b60048a019060ff801983541691161790556005890196610bf8565b928a841161041957600160401b8411610419575085548387558084106103cf575b50945f5281815f20941c945f5b86811061037b575060071983169092039182610318575b8a8a8a60098b6006810163ffffffff61029560648601610c2e565b1663ffffffff198254161790556084830135600782015560a4830135600882015501916102c460c48301610c3f565b1667ffffffffffffffff60401b6102df60e485549401610c3f565b60401b16916001600160801b031916171790557f11bae96fa9ee3b245b3bf79081a9242fc48e31fee473d2c9d4a20e0530196c4a5f80a2005b9291905f965f905b83821061034057505050505091019190915550600985808080808061027a565b909192938361036e879a6103548499610c2e565b9086861b60031b9163ffffffff809116831b921b19161790565b9901959493920190610320565b84905f805b858b60088310610397575050508188015501610263565b86949593836103aa6103c2949599610c2e565b921b60031b9163ffffffff809116831b921b19161790565b9201930190869291610380565b6103fb90875f52835f206007808701891c820192601c8860021b1680610401575b5001881c0190610be2565b8b610256565b5f1990818601918254918a038d1b1c1690555f6103f0565b634e487b7160e01b5f9081526041600452fd5b0101359050875f80610208565b8992919650601f19821690845f5289895f20925f5b8b82821061048d57505098846102359a10610472575b50505050811b01905561021a565b90910101355f19838d1b60f8161c191690555f808981610464565b848c01909301358555998201998d96909401938c920161044e565b6104d190845f52885f20601f850160051c8101918a86106104d7575b601f0160051c0190610be2565b5f6101ec565b90915081906104c4565b87634e487b7160e01b5f5260226004525ffd5b90607f16906101d4565b5f80fd5b506105106044820185610bf8565b9050600589015414156100da565b8c634e487b7160e01b5f5260216004525ffd5b506104fe5760031960a0368201126104fe5767ffffffffffffffff606435116104fe573660236064350112156104fe5767ffffffffffffffff60643560040135116104fe57366024606435600401356064350101116104fe5767ffffffffffffffff608435116104fe5761010090608435360301126104fe57601f19603f601f19601f60643560040135011601166080016080811067ffffffffffffffff8211176109e3576040526064356004810135608081905260a09160240182375f60206064356004013560800101526080519020606435600401351561015757805f5260243560205260405f2054610bd05761062e608435600401610c78565b6044355f5260043560205260405f20908154600181811c91168015610bc6575b6020821014610add57601f8111610b8f575b505f601f6064356004013511600114610b0b575f9060643560040135610afb575b506064356004013560011b905f196064356004013560031b1c19161782555b6001820180546001600160a81b0319163360ff60a01b191617600160a01b179055600460843590810135903603602219018112156104fe5767ffffffffffffffff600482608435010135116104fe576084358101600481013536036024909101136104fe576003830154600181811c91168015610af1575b6020821014610add57601f8111610aa0575b505f601f60048360843501013511600114610a09575f906004836084350101356109f7575b5060048260843501013560011b9160045f199160843501013560031b1c19161760038301555b600482016024608435013560028110156104fe5760ff8019835416911617905560058201916107ae604460843501608435600401610bf8565b9067ffffffffffffffff82116109e357600160401b82116109e3578454828655808310610994575b50935f5260205f205f5b8260031c81106109605750600719821691828103610904575b846009856006810163ffffffff610814606460843501610c2e565b1663ffffffff19825416179055608480350135600782015560a4608435013560088201550167ffffffffffffffff61085060c460843501610c3f565b1681549067ffffffffffffffff60401b61086e60e460843501610c3f565b60401b16916001600160801b031916171790555f5260243560205260443560405f2055604051602081526064356004013560208201526064356004013560246064350160408301375f6040606435600401358301015233907f6bfe994aa671108bc4fcb31c2a97ab16ddb967720121010032b2e834bf5eacf660443591604081601f19601f6064356004013501168101030190a3005b5f9586935b8083038810610927575050600994955060031c0155829184806107f9565b9093602061095560019261093a88610c2e565b908b60021b60031b9163ffffffff809116831b921b19161790565b950197019690610909565b5f805b600881106109785750828201556001016107e0565b9690602061098b60019261093a85610c2e565b92019701610963565b6109c390865f5260205f20600780860160031c820192601c8760021b16806109c9575b500160031c0190610be2565b856107d6565b5f19908186019182549160200360031b1c1690558a6109b7565b634e487b7160e01b5f52604160045260245ffd5b6024915082608435010101358461074f565b600384015f5260205f20905f5b608435840160040135601f19168110610a81575060019260049290916084358301840135601f19811610610a5a575b5050608435010135811b016003830155610775565b60245f1960f8868660843501013560031b161c199184608435010101351690558580610a45565b9091602060018192602486886084350101013581550193019101610a16565b600384015f908152602090819020610ad792608435850160040135601f810160051c830193116104d757601f0160051c0190610be2565b8361072a565b634e487b7160e01b5f52602260045260245ffd5b90607f1690610718565b6024915060643501013583610681565b825f5260205f20905f5b60046064350135601f19168110610b72575060046064350135601f19811610610b4e575b5050600160643560040135811b0182556106a0565b60245f1960f86064356004013560031b161c19916064350101351690558280610b39565b909160206001819260248660643501013581550193019101610b15565b5f838152602090819020610bc09260046064350135601f810160051c830193116104d757601f0160051c0190610be2565b82610660565b90607f169061064e565b604051638fc6f59b60e01b8152600490fd5b818110610bed575050565b5f8155600101610be2565b903590601e19813603018212156104fe570180359067ffffffffffffffff82116104fe57602001918160051b360383136104fe57565b3563ffffffff811681036104fe5790565b3567ffffffffffffffff811681036104fe5790565b9190811015610c645760051b0190565b634e487b7160e01b5f52603260045260245ffd5b60a081013580151580610e1c575b6101575767ffffffffffffffff80610ca060c08501610c3f565b16158015610e07575b6101575780608084013511918215610dfd575b505061015757602081013560028110156104fe5715610de7576040808201610ce48184610bf8565b80949150158015610ddd575b610157575f5b848110610d04575050505050565b610d0e8383610bf8565b90610d2361011f8463ffffffff948594610c54565b16158015610dc1575b610db0578115159081610d58575b50610d4757600101610cf6565b83516364d73b8f60e11b8152600490fd5b9050610d6b61011f836101198787610bf8565b90610d768585610bf8565b5f19850191858311610d9c578392610d919261011f92610c54565b16911611155f610d3a565b634e487b7160e01b5f52601160045260245ffd5b84516364d73b8f60e11b8152600490fd5b50606481610dd661011f856101198989610bf8565b1611610d2c565b5060fe8411610cf0565b806040610df5920190610bf8565b905061015757565b1190505f80610cbc565b5080610e1560e08501610c3f565b1615610ca9565b5060808201358110610c8656fea164736f6c6343000818000a";
+
+type MarketRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketRegistry__factory extends ContractFactory {
+  constructor(...args: MarketRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketRegistry__factory {
+    return super.connect(runner) as MarketRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketRegistryInterface {
+    return new Interface(_abi) as MarketRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketRegistry {
+    return new Contract(address, _abi, runner) as unknown as MarketRegistry;
+  }
+}
@@ -0,0 +1,179 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketReputation,
+  MarketReputationInterface,
+} from "../../contracts/MarketReputation";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSettlementRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoReputation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ReputationRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "accuracy",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "settledPredictions",
+        type: "uint32",
+      },
+    ],
+    name: "ReputationRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "recorded",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "ReputationsRecorded",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c57610e7690816100218239308160080152f35b5f80fdfe608080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610035575f80fd5b5f915f3560e01c90816312eac49a146108705750806336f8bb4e146103de57638289633514610062575f80fd5b6103db5760031960a0368201126103d7576044359067ffffffffffffffff9060643582811161031a57610099903690600401610c87565b9160843590811161031a576100b2903690600401610c87565b908385526020936024358552604086209360ff855460c01c166103c5578187527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018087526040882054156103b357828852865260408720936040518086898298549384815201908b52898b20928b5b8b82821061039d5750505061013892500386610c65565b8151938488019485891161038957604001809511610375578790604051968785519784870198808684019061016d918c610d10565b820190858201520383810189526040016101879089610c65565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b8152606060048201526001600160a01b039990958694928b169385938f938593926101e3906064860190610cdd565b828582030160248601526101f691610d31565b9083820301604484015261020991610d31565b03925af190811561036a578891610330575b501561031e5785917f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8880a280518101031261031a57519063ffffffff808316948584036103165784604094847f731e9f43d8dd8e69549636e2673f6d0c594d5df81c530360a05bc8be1ffa90ed9754600160c01b60ff60c01b198216178455165f5260043583526002865f20019068ffffffff000000000082549160281b169064010000000091828168ffffffffff00000000198416171784556cffffffff000000000000000000855460581c16916cffffffffffffffffff0000000019161717179055549184519687528260a01c16908601521692a280f35b8680fd5b8480fd5b60405163cf6c44e960e01b8152600490fd5b90508681813d8311610363575b6103478183610c65565b8101031261035f5751801515810361035f575f61021b565b8780fd5b503d61033d565b6040513d8a823e3d90fd5b634e487b7160e01b89526011600452602489fd5b634e487b7160e01b8a52601160045260248afd5b855484526001958601958b955093019201610121565b60405163d66ca67560e01b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b5080fd5b80fd5b506103db5760e03660031901126103db5760843560a43560c435828452602435602052604084206044356020526040852090828401841161085c5760138101548414801590610854575b8015610848575b61083657835b838501811061047f57509183916040936013837fb3f9eff37a056aea0587cce458dd97fa7bf39262387da68eeb6b0c239d7d4b1b970191015554908351920182526020820152a280f35b8587526064356020526040872083548210156108225783885260018060a01b038260208a200154165f5260205260405f209060018060a01b03825416805f5260043560205260405f2090600282015463ffffffff6001818316011161080e57908163ffffffff6001818e96951601169063ffffffff191617600283015582602060058454970154604460018060a01b035f80516020610e4a83398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af19081156107585784916107d9575b508086156107c9575b156107b7575b5f80516020610e4a8339815191525460405163022f65e760e31b8152600481019790975260248701919091526001600160f81b0319841660448701526020908690606490829087906001600160a01b03165af19485156107ac578395610775575b5082858615610763575b5f80516020610e4a83398151915254604051630afe14ad60e31b81526004810192909252606460248301819052600160f81b604484015291926020928492909183916001600160a01b03165af1908115610758578491610721575b5060209063ffffffff60028501541690801561070f575b5f80516020610e4a83398151915254604051635a53accb60e01b815260048101929092526024820192909252600160f81b604482015294859160649183916001600160a01b03165af1928315610704578b936106c9575b50906001946106bf86936106a53084610d56565b6106af8184610d56565b6106b93087610d56565b85610d56565b8155015501610435565b919092506020823d6020116106fc575b816106e660209383610c65565b810103126106f8579051916001610691565b5f80fd5b3d91506106d9565b6040513d8d823e3d90fd5b50606461071a610dc8565b905061063a565b9350506020833d602011610750575b8161073d60209383610c65565b810103126106f85760208b935190610623565b3d9150610730565b6040513d86823e3d90fd5b50602061076e610dc8565b90506105c8565b925093506020823d6020116107a4575b8161079260209383610c65565b810103126106f857899151935f6105be565b3d9150610785565b6040513d85823e3d90fd5b5060206107c2610dc8565b905061055d565b95506107d3610dc8565b95610557565b9350506020833d602011610806575b816107f560209383610c65565b810103126106f8578a92515f61054e565b3d91506107e8565b634e487b7160e01b8b52601160045260248bfd5b634e487b7160e01b88526032600452602488fd5b604051638d87a46b60e01b8152600490fd5b5081548385011161042f565b508215610428565b634e487b7160e01b5f52601160045260245ffd5b9190506106f85760403660031901126106f857335f5260043560205260405f209063ffffffff60028301541615610c425750604051906040820182811067ffffffffffffffff821117610b645760405260018252602036818401376001810154825115610c2e5760208301527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092906001600160a01b0316803b156106f8575f6040518092637d6e912360e11b82526020600483015281838161095a6024820189610cdd565b03925af18015610c2357610c10575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025484906001600160a01b0316803b156103d757816040518092633263b83b60e01b8252876004830152606060248301528183816109cb606482018a610cdd565b631e8d848160e11b604483015203925af18015610c0557610bed575b508390527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040852054610bdb578385526020526040842081519167ffffffffffffffff8311610bc757680100000000000000008311610bc7578154838355808410610ba0575b5060200190855260208520855b838110610b8c57505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f198114610b78576001017f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055600201546040519063ffffffff166060820167ffffffffffffffff811183821017610b64576040523382526020820190815260408201848152838552602435602052604085209260018060a01b0390511683549263ffffffff60a01b905160a01b169160ff60c01b9051151560c01b169266ffffffffffffff60c81b16171717905533907f7b130a4952a6f721e7bb78ad6cbd8e2013bcee77c517add280bd5190a80b04a68380a380f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b84526011600452602484fd5b600190602084519401938184015501610a5f565b82875260208720908482015b8183018110610bbc575050610a52565b888155600101610bac565b634e487b7160e01b86526041600452602486fd5b604051633f06d22b60e01b8152600490fd5b610bf690610c51565b610c0157835f6109e7565b8380fd5b6040513d84823e3d90fd5b610c1b919450610c51565b5f925f610969565b6040513d5f823e3d90fd5b634e487b7160e01b5f52603260045260245ffd5b631e06531160e11b8152600490fd5b67ffffffffffffffff8111610b6457604052565b90601f8019910116810190811067ffffffffffffffff821117610b6457604052565b81601f820112156106f85780359067ffffffffffffffff8211610b645760405192610cbc601f8401601f191660200185610c65565b828452602083830101116106f857815f926020809301838601378301015290565b9081518082526020808093019301915f5b828110610cfc575050505090565b835185529381019392810192600101610cee565b5f5b838110610d215750505f910152565b8181015183820152602001610d12565b90602091610d4a81518092818552858086019101610d10565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b156106f8575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015610c2357610dbd5750565b610dc690610c51565b565b5f80516020610e4a83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610c23575f91610e1a575090565b90506020813d602011610e41575b81610e3560209383610c65565b810103126106f8575190565b3d9150610e2856fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type MarketReputationConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketReputationConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketReputation__factory extends ContractFactory {
+  constructor(...args: MarketReputationConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketReputation & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketReputation__factory {
+    return super.connect(runner) as MarketReputation__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketReputationInterface {
+    return new Interface(_abi) as MarketReputationInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketReputation {
+    return new Contract(address, _abi, runner) as unknown as MarketReputation;
+  }
+}
@@ -0,0 +1,97 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MarketSettlement,
+  MarketSettlementInterface,
+} from "../../contracts/MarketSettlement";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "TestSetMissing",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "settled",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    name: "BatchSettlementProgress",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c5761110790816100218239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c806372bdbdfb1461020157638921c0cb14610052575f80fd5b6101fd5760803660031901126101fd5760043567ffffffffffffffff6024358181116101fd57610086903690600401610add565b91906044358281116101fd576100a0903690600401610add565b929091606435928284116101fd57366023850112156101fd5783600401359283116101fd57602484019360248436920101116101fd57869594916100e2610dd2565b6100ea610e20565b9060019360018a01968754985f975b8b808a1061015c578d908c8c61010f308361100a565b5563ffffffff8083549216818360a01c16019081116101485763ffffffff60a01b1990911660a09190911b63ffffffff60a01b16179055005b634e487b7160e01b5f52601160045260245ffd5b899b6101ca88886101c5898e9f8e9f98999a809c9d9e9f8c6101a9848e6101a36101916101d09f986101b29961019d98610b0e565b3561019d368988610b68565b90610c93565b97610b0e565b35923691610b68565b9080156101ef575b81156101df57611086565b610f64565b90610bae565b9a0197969594939291906100f9565b90506101e9610f11565b90611086565b506101f8610f11565b6101ba565b5f80fd5b506101fd5760e03660031901126101fd5760a4355f5260043560205260405f20610229610dd2565b90610232610e20565b61023a610e72565b82545f52602435602052600560405f2001908154151591600485015415610815575b50919390600484015492601185015491600986015493600a8701549560a4355f5260643560205260405f20986012890154955b60c43587106102fb578a8a8a8a6102a6308261100a565b6102b0308361100a565b6009830155600a820155601260c435910155546040519060c435825260208201527f0f5515b824d06a3d5002dd26a4e632002963112d1cb1045357eb7cb14e5bad8f604060a43592a2005b909192939495979660a4355f5260843560205260405f208b548a1015610801578b5f5260018060a01b038a60205f200154165f5260205260405f20976001890154875f146106705761035b9084908015610662575b851561065857611086565b915b60038a015480156105ce575b5f805160206110db833981519152546040516385362ee760e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115610538575f9161059c575b5080841561058c575b1561057a575b602090606460018060a01b035f805160206110db8339815191525416955f604051978894859363d99882d560e01b8552600485015260248401528160448401525af1928315610538578a905f94610543575b50600361045e5f9386600560209561043c308461100a565b8054610451906001600160a01b03168461100a565b01556101ca898c89610f64565b9b01545f805160206110db833981519152546040516307227b9160e21b81526004810192909252600660248301529092839160449183916001600160a01b03165af180156105385789915f916104ff575b506104d492916104c191600195610f64565b9080156104f1575b81156104e157610fb6565b980195949392919061028f565b90506104eb610e72565b90610fb6565b506104fa610e72565b6104c9565b929150506020823d602011610530575b8161051c60209383610b46565b810103126101fd57905188906104d46104af565b3d915061050f565b6040513d5f823e3d90fd5b9350506020833d602011610572575b8161055f60209383610b46565b810103126101fd57915191896003610424565b3d9150610552565b506020610585610ec5565b90506103d2565b9350610596610ec5565b936103cc565b90506020813d6020116105c6575b816105b760209383610b46565b810103126101fd57515f6103c3565b3d91506105aa565b505f805160206110db83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610538575f91610625575b50610369565b90506020813d602011610650575b8161064060209383610b46565b810103126101fd5751602061061f565b3d9150610633565b90506101e9610e20565b5061066b610e20565b610350565b808681156107f1575b87156107df575b602090606460018060a01b035f805160206110db8339815191525416945f6040519687948593631391547f60e01b8552600485015260248401528160448401525af1908115610538575f916107a9575b6106ef92506106e96106e28983610be0565b9189610be0565b91610f64565b63ffffffff60058d0154168115610795575b5f805160206110db83398151915254604051631d44e90160e21b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610538575f91610763575b509161035d565b90506020813d60201161078d575b8161077e60209383610b46565b810103126101fd57515f61075c565b3d9150610771565b905060206107a1610e20565b919050610701565b90506020823d6020116107d7575b816107c460209383610b46565b810103126101fd576106ef9151906106d0565b3d91506107b7565b5060206107ea610e20565b9050610680565b91506107fb610e20565b91610679565b634e487b7160e01b5f52603260045260245ffd5b60a495929395949194355f5260443560205260405f209163ffffffff835460a01c1615610acb578260015f9401548015610ab9575b5f805160206110db83398151915254604051630afe14ad60e31b81526004810192909252606460248301819052600160f81b604484015291956020928792909183916001600160a01b03165af1938415610538575f94610a81575b505460a01c63ffffffff168315610a6d575b5f805160206110db83398151915254604051635a53accb60e01b815260048101959095526024850191909152600160f81b6044850152602090849060649082905f906001600160a01b03165af1928315610538575f93610a39575b505f94875b8354871015610a0157835f5260e06020886064825f208260031c015489908a156109ee575b5f9063ffffffff60018060a01b035f805160206110db8339815191525416916040519889978896631391547f831b8852600488015260051b161c166024840152600160f81b60448401525af1908115610538578a9188915f916109b4575b506109ac92600194926101ca92610f64565b960195610917565b925050506020813d6020116109e6575b816109d160209383610b46565b810103126101fd5751899087906109ac61099a565b3d91506109c4565b90505f6109f9610e20565b91905061093c565b9250939694509491610a13308261100a565b610a1d308361100a565b6004860155601185015582600985015580600a8501555f61025c565b9092506020813d602011610a65575b81610a5560209383610b46565b810103126101fd5751915f610912565b3d9150610a48565b92506020610a79610e20565b9390506108b7565b9093506020813d602011610ab1575b81610a9d60209383610b46565b810103126101fd57519263ffffffff6108a5565b3d9150610a90565b506020610ac4610e20565b905061084a565b6040516364aa5f3560e01b8152600490fd5b9181601f840112156101fd5782359167ffffffffffffffff83116101fd576020808501948460051b0101116101fd57565b91908110156108015760051b0190565b67ffffffffffffffff8111610b3257604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610b3257604052565b92919267ffffffffffffffff8211610b325760405191610b92601f8201601f191660200184610b46565b8294818452818301116101fd578281602093845f960137010152565b90610bc5918015610bd2575b8115610bc857610fb6565b90565b90506104eb610e20565b50610bdb610e20565b610bba565b908115610c83575b8015610c71575b602090606460018060a01b035f805160206110db8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610538575f91610c42575090565b90506020813d602011610c69575b81610c5d60209383610b46565b810103126101fd575190565b3d9150610c50565b506020610c7c610e20565b9050610bef565b9050610c8d610e20565b90610be8565b5f805160206110db8339815191525460405163196d0b9b60e01b815260048101929092523360248301526080604483015282516084830181905291926001600160a01b03929183169184915f5b828110610dba57505091815f60a4828683836020998401015260026064830152601f801991011681010301925af1918215610538575f92610d86575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156101fd57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561053857610d7d575090565b610bc590610b1e565b9091506020813d602011610db2575b81610da260209383610b46565b810103126101fd5751905f610d1c565b3d9150610d95565b602082820181015160a4898401015287945001610ce0565b5f602060018060a01b035f805160206110db8339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115610538575f91610c42575090565b5f805160206110db83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610538575f91610c42575090565b5f805160206110db83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115610538575f91610c42575090565b5f602060018060a01b035f805160206110db8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610538575f91610c42575090565b5f805160206110db83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610538575f91610c42575090565b9060646020925f60018060a01b035f805160206110db83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610538575f91610c42575090565b90602090606460018060a01b035f805160206110db8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610538575f91610c42575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156101fd57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156105385761107b5750565b61108490610b1e565b565b90602090606460018060a01b035f805160206110db8339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115610538575f91610c4257509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type MarketSettlementConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketSettlementConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketSettlement__factory extends ContractFactory {
+  constructor(...args: MarketSettlementConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MarketSettlement & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketSettlement__factory {
+    return super.connect(runner) as MarketSettlement__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketSettlementInterface {
+    return new Interface(_abi) as MarketSettlementInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketSettlement {
+    return new Contract(address, _abi, runner) as unknown as MarketSettlement;
+  }
+}
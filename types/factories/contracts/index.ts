@@ -1,4 +1,13 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as aiPredictMarketFheSol from "./AI_Predict_Market_Fhe.sol";
+export { AIPredictMarketProxy__factory } from "./AIPredictMarketProxy__factory";
+export { MarketBalances__factory } from "./MarketBalances__factory";
+export { MarketClaims__factory } from "./MarketClaims__factory";
+export { MarketDisputes__factory } from "./MarketDisputes__factory";
+export { MarketEvaluation__factory } from "./MarketEvaluation__factory";
+export { MarketIntents__factory } from "./MarketIntents__factory";
+export { MarketRegistry__factory } from "./MarketRegistry__factory";
+export { MarketReputation__factory } from "./MarketReputation__factory";
+export { MarketSettlement__factory } from "./MarketSettlement__factory";
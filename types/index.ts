@@ -3,6 +3,8 @@
 /* eslint-disable */
 import type * as fhevm from "./@fhevm";
 export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
@@ -22,5 +24,57 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { Initializable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/Initializable";
+export { Initializable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/Initializable__factory";
+export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
+export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
+export type { IERC1271 } from "./@openzeppelin/contracts/interfaces/IERC1271";
+export { IERC1271__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1271__factory";
+export type { IERC1967 } from "./@openzeppelin/contracts/interfaces/IERC1967";
+export { IERC1967__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1967__factory";
+export type { IERC7913SignatureVerifier } from "./@openzeppelin/contracts/interfaces/IERC7913.sol/IERC7913SignatureVerifier";
+export { IERC7913SignatureVerifier__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC7913.sol/IERC7913SignatureVerifier__factory";
+export type { IBeacon } from "./@openzeppelin/contracts/proxy/beacon/IBeacon";
+export { IBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/IBeacon__factory";
+export type { ERC1967Proxy } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy";
+export { ERC1967Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy__factory";
+export type { ERC1967Utils } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils";
+export { ERC1967Utils__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils__factory";
+export type { Proxy } from "./@openzeppelin/contracts/proxy/Proxy";
+export { Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/Proxy__factory";
+export type { ProxyAdmin } from "./@openzeppelin/contracts/proxy/transparent/ProxyAdmin";
+export { ProxyAdmin__factory } from "./factories/@openzeppelin/contracts/proxy/transparent/ProxyAdmin__factory";
+export type { ITransparentUpgradeableProxy } from "./@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/ITransparentUpgradeableProxy";
+export { ITransparentUpgradeableProxy__factory } from "./factories/@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/ITransparentUpgradeableProxy__factory";
+export type { TransparentUpgradeableProxy } from "./@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy";
+export { TransparentUpgradeableProxy__factory } from "./factories/@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol/TransparentUpgradeableProxy__factory";
+export type { Address } from "./@openzeppelin/contracts/utils/Address";
+export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
+export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { AIPredictMarketFHE } from "./contracts/AI_Predict_Market_Fhe.sol/AIPredictMarketFHE";
+export { AIPredictMarketFHE__factory } from "./factories/contracts/AI_Predict_Market_Fhe.sol/AIPredictMarketFHE__factory";
+export type { AIPredictMarketProxy } from "./contracts/AIPredictMarketProxy";
+export { AIPredictMarketProxy__factory } from "./factories/contracts/AIPredictMarketProxy__factory";
+export type { MarketBalances } from "./contracts/MarketBalances";
+export { MarketBalances__factory } from "./factories/contracts/MarketBalances__factory";
+export type { MarketClaims } from "./contracts/MarketClaims";
+export { MarketClaims__factory } from "./factories/contracts/MarketClaims__factory";
+export type { MarketDisputes } from "./contracts/MarketDisputes";
+export { MarketDisputes__factory } from "./factories/contracts/MarketDisputes__factory";
+export type { MarketEvaluation } from "./contracts/MarketEvaluation";
+export { MarketEvaluation__factory } from "./factories/contracts/MarketEvaluation__factory";
+export type { MarketIntents } from "./contracts/MarketIntents";
+export { MarketIntents__factory } from "./factories/contracts/MarketIntents__factory";
+export type { MarketRegistry } from "./contracts/MarketRegistry";
+export { MarketRegistry__factory } from "./factories/contracts/MarketRegistry__factory";
+export type { MarketReputation } from "./contracts/MarketReputation";
+export { MarketReputation__factory } from "./factories/contracts/MarketReputation__factory";
+export type { MarketSettlement } from "./contracts/MarketSettlement";
+export { MarketSettlement__factory } from "./factories/contracts/MarketSettlement__factory";